@@ -0,0 +1,227 @@
+// Background Sync: replays the outbox (src/lib/outbox.ts) once the connection is back, even after the
+// tab that queued the changes was closed. It reads the outbox, the Supabase config and the session from
+// the app's IndexedDB (src/lib/indexedDb.ts, src/lib/backgroundSync.ts) and reports back to open tabs.
+const SYNC_TAG = 'background-sync';
+const DB_NAME = 'screensafe';
+const KEY_VALUE_STORE = 'keyValue';
+const OUTBOX_KEY = 'outbox';
+const OUTBOX_LOCK = 'outbox';
+const CONFIG_KEY = 'backgroundSyncConfig';
+
+// A token this close to expiring is refreshed before the replay starts
+const REFRESH_MARGIN_SECONDS = 60;
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(syncOutbox());
+});
+
+async function syncOutbox() {
+  // An open tab replays itself: it also merges conflicting edits and keeps its optimistic state current
+  const tabs = await self.clients.matchAll({ type: 'window' });
+  if (tabs.length > 0) {
+    tabs.forEach((tab) => tab.postMessage({ type: 'outbox-replay' }));
+    return;
+  }
+
+  const results = await withLock(OUTBOX_LOCK, replayOutbox);
+
+  const opened = await self.clients.matchAll({ type: 'window' });
+  opened.forEach((tab) => tab.postMessage({ type: 'outbox-synced', results: results.done }));
+
+  // Rejecting makes the browser fire the sync again later
+  if (results.interrupted) throw new Error('Connection lost during background sync');
+}
+
+// The connection is closed again afterwards, so the worker never holds up a schema upgrade in the app
+async function replayOutbox() {
+  const db = await openDatabase();
+  if (!db) return { done: [], interrupted: false };
+
+  try {
+    return await replayEntries(db);
+  } finally {
+    db.close();
+  }
+}
+
+async function replayEntries(db) {
+  const done = [];
+  const storedConfig = await readValue(db, CONFIG_KEY);
+  const storedOutbox = await readValue(db, OUTBOX_KEY);
+  if (!storedConfig || !storedOutbox) return { done, interrupted: false };
+
+  const config = JSON.parse(storedConfig);
+  const outbox = JSON.parse(storedOutbox);
+
+  // Signed out, or the session could not be refreshed: the entries wait for the app
+  let session = await currentSession(db, config);
+  if (!session) return { done, interrupted: false };
+
+  const blocked = new Set();
+  let interrupted = false;
+
+  for (const entry of [...outbox.entries]) {
+    const key = `${entry.table}:${entry.recordId}`;
+    if (entry.error || entry.conflict || blocked.has(key)) {
+      blocked.add(key);
+      continue;
+    }
+
+    let outcome = await send(config, session, entry);
+    if (outcome && outcome.unauthorized) {
+      session = await currentSession(db, config, true);
+      outcome = session ? await send(config, session, entry) : null;
+    }
+    if (!outcome || outcome.unauthorized) {
+      interrupted = true;
+      break;
+    }
+
+    if (outcome.status === 'saved') {
+      outbox.entries = outbox.entries.filter((candidate) => candidate.id !== entry.id);
+      if (outcome.serverId) {
+        outbox.serverIds[entry.recordId] = outcome.serverId;
+        outbox.entries.forEach((candidate) => {
+          if (candidate.table === entry.table && candidate.recordId === entry.recordId) candidate.recordId = outcome.serverId;
+        });
+      }
+      done.push({ entry, status: 'saved', serverId: outcome.serverId });
+    } else if (outcome.status === 'changed') {
+      // Changed on another device since the edit: merging it needs the app, so it waits there
+      blocked.add(key);
+    } else {
+      entry.attempts += 1;
+      entry.error = outcome.error;
+      blocked.add(key);
+      done.push({ entry, status: 'failed', error: outcome.error });
+    }
+
+    outbox.revision = (outbox.revision || 0) + 1;
+    await writeValue(db, OUTBOX_KEY, JSON.stringify(outbox));
+  }
+
+  return { done, interrupted };
+}
+
+// One entry against Supabase's REST API, the same requests the app's client makes. Null when the
+// request did not reach the server
+async function send(config, session, entry) {
+  const base = `${config.url}/rest/v1/${entry.table}`;
+  const id = `id=eq.${encodeURIComponent(entry.recordId)}`;
+  let response;
+
+  try {
+    if (entry.operation === 'create') {
+      response = await request(config, session, `${base}?select=id`, 'POST', entry.patch);
+    } else if (entry.operation === 'update' && entry.base) {
+      const unchanged = `updated_at=eq.${encodeURIComponent(entry.base.updatedAt)}`;
+      response = await request(config, session, `${base}?${id}&${unchanged}&select=id`, 'PATCH', entry.patch);
+    } else if (entry.operation === 'update') {
+      response = await request(config, session, `${base}?${id}`, 'PATCH', entry.patch);
+    } else {
+      response = await request(config, session, `${base}?${id}`, 'DELETE');
+    }
+  } catch {
+    return null;
+  }
+
+  if (response.status === 401) return { unauthorized: true };
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    return { status: 'failed', error: body.message || `Request failed with status ${response.status}` };
+  }
+
+  const rows = await response.json().catch(() => []);
+  if (entry.operation === 'create') return { status: 'saved', serverId: rows[0] && rows[0].id };
+  if (entry.operation === 'update' && entry.base && rows.length === 0) return { status: 'changed' };
+  return { status: 'saved' };
+}
+
+function request(config, session, url, method, body) {
+  return fetch(url, {
+    method,
+    headers: {
+      apikey: config.anonKey,
+      Authorization: `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+      Prefer: 'return=representation'
+    },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+// The session supabase-js stored, refreshed when it is about to expire. The refreshed one is written
+// back under the same key and lock supabase-js uses, so the app continues with it
+async function currentSession(db, config, force = false) {
+  return withLock(`lock:${config.sessionKey}`, async () => {
+    const stored = await readValue(db, config.sessionKey);
+    if (!stored) return null;
+
+    const session = JSON.parse(stored);
+    const expiresSoon = !session.expires_at || session.expires_at - REFRESH_MARGIN_SECONDS < Date.now() / 1000;
+    if (!force && !expiresSoon) return session;
+
+    try {
+      const response = await fetch(`${config.url}/auth/v1/token?grant_type=refresh_token`, {
+        method: 'POST',
+        headers: { apikey: config.anonKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refresh_token: session.refresh_token })
+      });
+      if (!response.ok) return null;
+
+      const refreshed = await response.json();
+      const next = {
+        ...session,
+        ...refreshed,
+        expires_at: refreshed.expires_at || Math.round(Date.now() / 1000) + refreshed.expires_in
+      };
+      await writeValue(db, config.sessionKey, JSON.stringify(next));
+      return next;
+    } catch (error) {
+      console.error('Refreshing the session for background sync failed:', error);
+      return null;
+    }
+  });
+}
+
+function withLock(name, run) {
+  return self.navigator.locks ? self.navigator.locks.request(name, run) : run();
+}
+
+// Opened at whatever version the app created; the service worker never upgrades the schema, and
+// resolves null when the app has not created the database yet. When the app upgrades it, the worker
+// lets go at once: the replay in progress fails and the browser fires the sync again later
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    let missing = false;
+    const request = indexedDB.open(DB_NAME);
+    request.onupgradeneeded = () => {
+      missing = true;
+      request.transaction.abort();
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => (missing ? resolve(null) : reject(request.error));
+  });
+}
+
+function readValue(db, key) {
+  return new Promise((resolve, reject) => {
+    if (!db.objectStoreNames.contains(KEY_VALUE_STORE)) return resolve(undefined);
+    const request = db.transaction(KEY_VALUE_STORE).objectStore(KEY_VALUE_STORE).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function writeValue(db, key, value) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(KEY_VALUE_STORE, 'readwrite');
+    transaction.objectStore(KEY_VALUE_STORE).put(value, key);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
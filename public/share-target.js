@@ -0,0 +1,41 @@
+// Web Share Target: the manifest posts shared screenshots and text here. They are parked in a
+// cache under a fresh id and the app is opened with ?share-target=<id> to pick them up.
+const SHARE_TARGET_CACHE = 'share-target';
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'POST' || url.pathname !== '/share-target') return;
+
+  event.respondWith(receiveShare(event.request));
+});
+
+async function receiveShare(request) {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+  try {
+    const form = await request.formData();
+    const cache = await caches.open(SHARE_TARGET_CACHE);
+    const files = form.getAll('screenshots').filter((file) => file instanceof File);
+
+    await Promise.all(files.map((file, index) =>
+      cache.put(`/share-target/${id}/file-${index}`, new Response(file, {
+        headers: {
+          'Content-Type': file.type || 'application/octet-stream',
+          'X-File-Name': encodeURIComponent(file.name)
+        }
+      }))
+    ));
+
+    // Apps share a link, a caption, or both; keep whatever came as one block of text
+    const text = ['title', 'text', 'url']
+      .map((field) => form.get(field))
+      .filter((value) => typeof value === 'string' && value.trim())
+      .join('\n');
+
+    await cache.put(`/share-target/${id}/meta`, new Response(JSON.stringify({ files: files.length, text })));
+  } catch (error) {
+    console.error('Receiving shared content failed:', error);
+  }
+
+  return Response.redirect(`/?share-target=${id}`, 303);
+}
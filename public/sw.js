@@ -1,3 +1,5 @@
+importScripts('/share-target.js', '/background-sync.js');
+
 const CACHE_NAME = 'dashboard-pwa-v1';
 const urlsToCache = [
   '/',
@@ -16,6 +18,9 @@ self.addEventListener('install', (event) => {
 
 // Fetch event
 self.addEventListener('fetch', (event) => {
+  // Only reads are served from the cache; shared content is posted to share-target.js
+  if (event.request.method !== 'GET') return;
+
   event.respondWith(
     caches.match(event.request)
       .then((response) => {
@@ -25,26 +30,6 @@ self.addEventListener('fetch', (event) => {
   );
 });
 
-// Background sync for offline data
-self.addEventListener('sync', (event) => {
-  if (event.tag === 'background-sync') {
-    event.waitUntil(syncData());
-  }
-});
-
-async function syncData() {
-  // Handle offline data synchronization
-  try {
-    const offlineData = await getOfflineData();
-    if (offlineData.length > 0) {
-      await syncToSupabase(offlineData);
-      await clearOfflineData();
-    }
-  } catch (error) {
-    console.error('Background sync failed:', error);
-  }
-}
-
 // Push notifications
 self.addEventListener('push', (event) => {
   const options = {
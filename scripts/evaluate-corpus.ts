@@ -0,0 +1,252 @@
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ocrService, OCRResult } from '../src/lib/ocr';
+import { contentCategorizer, CategorizedContent } from '../src/lib/categorizer';
+import { templateRegistry } from '../src/lib/templates';
+import { classLabels } from '../src/lib/classifier';
+import { languageRegistry, LanguageSetting } from '../src/lib/languages';
+import { ConfidenceBand, ConfidenceThresholds, defaultThresholds } from '../src/lib/thresholds';
+import { labelledLines } from '../src/lib/fixtures/labelledLines';
+import {
+  CorpusBaseline,
+  CorpusCaseResult,
+  CorpusReport,
+  EvaluationReport,
+  evaluateCategorizer,
+  findRegressions,
+  predictSamples,
+  scoreCorpusCase,
+  suggestThresholds,
+  summarizeCorpus,
+  sweepThreshold,
+  toCorpusBaseline
+} from '../src/lib/evaluation';
+
+// Scores the OCR → categorizer pipeline against eval/corpus.
+//
+//   npm run evaluate                       replay recorded OCR and compare with eval/baseline.json
+//   npm run evaluate -- --update-baseline  write the current results as the new baseline
+//   npm run evaluate -- --live --lang-path <dir> [--language <code|auto>] [--record]
+//                                          re-run tesseract on each screenshot.png; --record saves ocr.json
+//   npm run evaluate -- --thresholds       precision/recall per confidence band on the labelled lines in
+//                                          src/lib/fixtures/labelledLines.ts, and the thresholds they suggest
+
+interface CorpusCase {
+  description: string;
+  referenceDate: string;
+  timeZone: string;
+}
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const corpusDir = path.join(rootDir, 'eval', 'corpus');
+const baselinePath = path.join(rootDir, 'eval', 'baseline.json');
+
+const args = process.argv.slice(2);
+const hasFlag = (flag: string) => args.includes(flag);
+const flagValue = (flag: string) => {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const readJson = <T>(file: string): T => JSON.parse(readFileSync(file, 'utf8'));
+
+const writeJson = (file: string, value: unknown) => writeFileSync(file, `${JSON.stringify(value, null, 2)}\n`);
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+const loadOCR = async (caseDir: string): Promise<OCRResult> => {
+  const recordedPath = path.join(caseDir, 'ocr.json');
+  const screenshotPath = path.join(caseDir, 'screenshot.png');
+
+  if (!hasFlag('--live') || !existsSync(screenshotPath)) {
+    return readJson<OCRResult>(recordedPath);
+  }
+
+  const result = await ocrService.extractText(screenshotPath);
+  if (hasFlag('--record')) writeJson(recordedPath, result);
+  return result;
+};
+
+const printReport = (report: CorpusReport, baseline?: CorpusReport) => {
+  const delta = (current: number, previous?: number) => {
+    if (previous === undefined) return '';
+    const change = (current - previous) * 100;
+    return Math.abs(change) < 0.05 ? '' : ` (${change > 0 ? '+' : ''}${change.toFixed(1)})`;
+  };
+
+  console.log(`\n${report.cases} cases, ${report.items} items\n`);
+  console.log(`${'category'.padEnd(14)}${'support'.padStart(8)}${'precision'.padStart(16)}${'recall'.padStart(16)}`);
+
+  for (const label of classLabels) {
+    const metrics = report.categories[label];
+    const previous = baseline?.categories[label];
+    console.log(
+      `${label.padEnd(14)}${String(metrics.support).padStart(8)}` +
+      `${(percent(metrics.precision) + delta(metrics.precision, previous?.precision)).padStart(16)}` +
+      `${(percent(metrics.recall) + delta(metrics.recall, previous?.recall)).padStart(16)}`
+    );
+  }
+
+  console.log(`\ncategory accuracy ${percent(report.accuracy)}${delta(report.accuracy, baseline?.accuracy)}`);
+  console.log(
+    `date accuracy     ${percent(report.dateAccuracy)}${delta(report.dateAccuracy, baseline?.dateAccuracy)}` +
+    ` over ${report.datedItems} dated items`
+  );
+  console.log(
+    `location accuracy ${percent(report.locationAccuracy)}${delta(report.locationAccuracy, baseline?.locationAccuracy)}` +
+    ` over ${report.locatedItems} located items`
+  );
+};
+
+const printMisses = (results: CorpusCaseResult[]) => {
+  for (const result of results) {
+    for (const outcome of result.outcomes) {
+      if (!outcome.categoryCorrect) {
+        console.log(`  ${result.name}: "${outcome.sourceText}" expected ${outcome.expected}, got ${outcome.predicted}`);
+      }
+      for (const mismatch of outcome.dateMismatches) {
+        console.log(
+          `  ${result.name}: "${outcome.sourceText}" ${mismatch.field} expected ${mismatch.expected ?? 'none'}, got ${mismatch.actual ?? 'none'}`
+        );
+      }
+      if (outcome.location) {
+        console.log(
+          `  ${result.name}: "${outcome.sourceText}" location expected "${outcome.location.expected}", got ${outcome.location.actual ? `"${outcome.location.actual}"` : 'none'}`
+        );
+      }
+    }
+  }
+};
+
+const bandLabels: Record<ConfidenceBand, string> = {
+  auto_accept: 'auto-accept',
+  review: 'review',
+  discard: 'discard'
+};
+
+const printEvaluation = (title: string, report: EvaluationReport) => {
+  console.log(`\n${title}: ${report.total} lines, accuracy ${percent(report.accuracy).trim()}\n`);
+  console.log(`${'band'.padEnd(14)}${'items'.padStart(8)}${'precision'.padStart(16)}`);
+  for (const band of Object.keys(bandLabels) as ConfidenceBand[]) {
+    const metrics = report.bands[band];
+    console.log(`${bandLabels[band].padEnd(14)}${String(metrics.count).padStart(8)}${percent(metrics.precision).padStart(16)}`);
+  }
+
+  console.log(`\n${'category'.padEnd(14)}${'support'.padStart(8)}${'precision'.padStart(16)}${'recall'.padStart(16)}`);
+  for (const label of classLabels) {
+    const metrics = report.categories[label];
+    console.log(
+      `${label.padEnd(14)}${String(metrics.support).padStart(8)}${percent(metrics.precision).padStart(16)}${percent(metrics.recall).padStart(16)}`
+    );
+  }
+};
+
+// Evidence for the defaults in src/lib/thresholds.ts: how each band performs on the labelled lines now,
+// how precision and recall move with each category's threshold, and what the lines would suggest instead
+const evaluateThresholds = () => {
+  contentCategorizer.setLanguage('eng');
+  const predictions = predictSamples(labelledLines);
+  const suggested = suggestThresholds(predictions);
+
+  printEvaluation('Default thresholds', evaluateCategorizer(labelledLines, defaultThresholds));
+
+  for (const category of Object.keys(defaultThresholds) as (keyof ConfidenceThresholds)[]) {
+    console.log(`\n${`${category} ≥`.padEnd(14)}${'kept'.padStart(8)}${'precision'.padStart(16)}${'recall'.padStart(16)}`);
+    for (const point of sweepThreshold(predictions, category)) {
+      console.log(
+        `${String(point.threshold).padEnd(14)}${String(point.kept).padStart(8)}` +
+        `${percent(point.precision).padStart(16)}${percent(point.recall).padStart(16)}`
+      );
+    }
+  }
+
+  console.log(`\n${'suggested'.padEnd(14)}${'auto-accept'.padStart(14)}${'review'.padStart(10)}`);
+  for (const category of Object.keys(suggested) as (keyof ConfidenceThresholds)[]) {
+    const current = defaultThresholds[category];
+    const next = suggested[category];
+    console.log(
+      `${category.padEnd(14)}${`${next.autoAccept} (${current.autoAccept})`.padStart(14)}${`${next.review} (${current.review})`.padStart(10)}`
+    );
+  }
+
+  printEvaluation('Suggested thresholds', evaluateCategorizer(labelledLines, suggested));
+};
+
+const main = async () => {
+  if (hasFlag('--thresholds')) {
+    evaluateThresholds();
+    return;
+  }
+
+  if (hasFlag('--live')) {
+    ocrService.setLanguage((flagValue('--language') ?? 'auto') as LanguageSetting);
+    await ocrService.initialize({ langPath: flagValue('--lang-path'), cacheMethod: 'none' });
+  }
+
+  const results: CorpusCaseResult[] = [];
+
+  for (const name of readdirSync(corpusDir).sort()) {
+    const caseDir = path.join(corpusDir, name);
+    const corpusCase = readJson<CorpusCase>(path.join(caseDir, 'case.json'));
+    const expected = readJson<CategorizedContent>(path.join(caseDir, 'expected.json'));
+
+    const options = {
+      referenceDate: new Date(corpusCase.referenceDate),
+      timeZone: corpusCase.timeZone
+    };
+
+    // Typed notes skip OCR and go through the Markdown front end, as pasted text does in the app
+    const notePath = path.join(caseDir, 'note.md');
+    let actual: CategorizedContent;
+    if (existsSync(notePath)) {
+      const note = readFileSync(notePath, 'utf8');
+      contentCategorizer.setLanguage(languageRegistry.detect(note));
+      actual = contentCategorizer.categorizeNotes(note, options);
+    } else {
+      const ocr = await loadOCR(caseDir);
+      contentCategorizer.setLanguage(ocr.metadata.language);
+      actual = templateRegistry.categorize(ocr, options);
+    }
+
+    results.push(scoreCorpusCase(name, expected, actual));
+  }
+
+  await ocrService.terminate();
+
+  const report = summarizeCorpus(results);
+  const baseline = existsSync(baselinePath) ? readJson<CorpusBaseline>(baselinePath) : undefined;
+
+  printReport(report, baseline?.report);
+
+  console.log('\nMisses:');
+  printMisses(results);
+
+  if (hasFlag('--update-baseline')) {
+    writeJson(baselinePath, toCorpusBaseline(results));
+    console.log(`\nBaseline written to ${path.relative(rootDir, baselinePath)}`);
+    return;
+  }
+
+  if (!baseline) {
+    console.log('\nNo baseline yet; run with --update-baseline to create one');
+    return;
+  }
+
+  const regressions = findRegressions(baseline, results);
+  if (regressions.length === 0) {
+    console.log('\nNo regressions against the baseline');
+    return;
+  }
+
+  console.log(`\n${regressions.length} regression(s) against the baseline:`);
+  for (const regression of regressions) {
+    console.log(`  [${regression.kind}] ${regression.key}`);
+  }
+  process.exitCode = 1;
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
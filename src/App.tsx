@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   CheckSquare, 
   Calendar, 
@@ -9,31 +9,48 @@ import {
   Wifi,
   WifiOff,
   Camera,
-  FileText
+  FileText,
+  Check,
+  Trash2
 } from 'lucide-react';
 import { supabase, Todo, Event, Reminder, Achievement } from './lib/supabase';
 import { hybridStorage } from './lib/storage';
+import { outbox, applyPending, OutboxEntry } from './lib/outbox';
+import { mediaService } from './lib/media';
+import { backgroundSync } from './lib/backgroundSync';
 import { DashboardCard } from './components/DashboardCard';
 import { TodoModal } from './components/TodoModal';
 import { Header } from './components/Header';
 import { AuthModal } from './components/AuthModal';
 import { PWAInstaller } from './components/PWAInstaller';
 import { OCRUploader } from './components/OCRUploader';
+import { EntityChips } from './components/EntityChips';
+import { SyncStatus } from './components/SyncStatus';
 import { CategorizedContent } from './lib/categorizer';
+import { shareTarget, SharedContent } from './lib/shareTarget';
 
 function App() {
   const [user, setUser] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [showTodoModal, setShowTodoModal] = useState(false);
+  const [editingTodo, setEditingTodo] = useState<Todo | null>(null);
   const [showOCRUploader, setShowOCRUploader] = useState(false);
+  const [sharedContent, setSharedContent] = useState<SharedContent | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   
-  // Data states
-  const [todos, setTodos] = useState<Todo[]>([]);
-  const [events, setEvents] = useState<Event[]>([]);
-  const [reminders, setReminders] = useState<Reminder[]>([]);
-  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  // Data states, as last fetched from the server
+  const [serverTodos, setTodos] = useState<Todo[]>([]);
+  const [serverEvents, setEvents] = useState<Event[]>([]);
+  const [serverReminders, setReminders] = useState<Reminder[]>([]);
+  const [serverAchievements, setAchievements] = useState<Achievement[]>([]);
+
+  // Local changes not yet acknowledged, shown on top of the server's rows
+  const [pendingChanges, setPendingChanges] = useState<OutboxEntry[]>([]);
+  const todos = useMemo(() => applyPending('todos', serverTodos, pendingChanges), [serverTodos, pendingChanges]);
+  const events = useMemo(() => applyPending('events', serverEvents, pendingChanges), [serverEvents, pendingChanges]);
+  const reminders = useMemo(() => applyPending('reminders', serverReminders, pendingChanges), [serverReminders, pendingChanges]);
+  const achievements = useMemo(() => applyPending('achievements', serverAchievements, pendingChanges), [serverAchievements, pendingChanges]);
 
   // Loading states
   const [todosLoading, setTodosLoading] = useState(false);
@@ -50,8 +67,9 @@ function App() {
 
     // Listen for auth changes
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (_event, session) => {
+      (event, session) => {
         setUser(session?.user ?? null);
+        if (event === 'SIGNED_OUT') mediaService.clear();
       }
     );
 
@@ -73,20 +91,71 @@ function App() {
         });
     }
 
+    // Queued changes are replayed by the service worker once the connection is back, even with this tab closed
+    const stopBackgroundSync = backgroundSync.start();
+
     return () => {
       subscription.unsubscribe();
+      stopBackgroundSync();
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
   }, []);
 
   useEffect(() => {
-    if (user) {
-      fetchAllData();
-      setupRealtimeSubscriptions();
-    }
+    if (!user) return;
+
+    fetchAllData();
+    setupRealtimeSubscriptions();
+
+    // Every change goes through the outbox; once the server has some of them, reload what they touched
+    const unsubscribeChanges = outbox.subscribe(setPendingChanges);
+    const unsubscribeReplay = outbox.onReplay(results => {
+      if (results.some(result => result.status === 'saved')) fetchAllData();
+    });
+
+    // Changes left from a session that closed before it got a connection
+    if (navigator.onLine) outbox.replay();
+
+    return () => {
+      unsubscribeChanges();
+      unsubscribeReplay();
+    };
   }, [user]);
 
+  // Shared from another app through the manifest's share_target, handled once signed in
+  useEffect(() => {
+    if (!user) return;
+
+    shareTarget.consumePending().then(content => {
+      if (content) openWithContent(content);
+    });
+  }, [user]);
+
+  // Pasting a screenshot or text anywhere outside a form field opens the uploader with it
+  useEffect(() => {
+    if (!user) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.isContentEditable || target?.closest('input, textarea, select')) return;
+
+      const content = shareTarget.fromClipboard(e.clipboardData);
+      if (!content) return;
+
+      e.preventDefault();
+      openWithContent(content);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [user]);
+
+  const openWithContent = (content: SharedContent) => {
+    setSharedContent(content);
+    setShowOCRUploader(true);
+  };
+
   const setupRealtimeSubscriptions = () => {
     if (!user) return;
 
@@ -159,11 +228,11 @@ function App() {
       setTodos(todosData || []);
       
       // Store in hybrid storage
-      await hybridStorage.store('todos', todosData || []);
+      await hybridStorage.cacheRecords('todos', todosData || []);
     } catch (error) {
       console.error('Error fetching todos:', error);
       // Fallback to local storage
-      const localTodos = await hybridStorage.retrieve('todos');
+      const localTodos = await hybridStorage.cachedRecords<Todo>('todos');
       if (localTodos) setTodos(localTodos);
     } finally {
       setTodosLoading(false);
@@ -184,10 +253,10 @@ function App() {
       if (eventsError) throw eventsError;
       setEvents(eventsData || []);
       
-      await hybridStorage.store('events', eventsData || []);
+      await hybridStorage.cacheRecords('events', eventsData || []);
     } catch (error) {
       console.error('Error fetching events:', error);
-      const localEvents = await hybridStorage.retrieve('events');
+      const localEvents = await hybridStorage.cachedRecords<Event>('events');
       if (localEvents) setEvents(localEvents);
     } finally {
       setEventsLoading(false);
@@ -209,10 +278,10 @@ function App() {
       if (remindersError) throw remindersError;
       setReminders(remindersData || []);
       
-      await hybridStorage.store('reminders', remindersData || []);
+      await hybridStorage.cacheRecords('reminders', remindersData || []);
     } catch (error) {
       console.error('Error fetching reminders:', error);
-      const localReminders = await hybridStorage.retrieve('reminders');
+      const localReminders = await hybridStorage.cachedRecords<Reminder>('reminders');
       if (localReminders) setReminders(localReminders);
     } finally {
       setRemindersLoading(false);
@@ -234,10 +303,10 @@ function App() {
       if (achievementsError) throw achievementsError;
       setAchievements(achievementsData || []);
       
-      await hybridStorage.store('achievements', achievementsData || []);
+      await hybridStorage.cacheRecords('achievements', achievementsData || []);
     } catch (error) {
       console.error('Error fetching achievements:', error);
-      const localAchievements = await hybridStorage.retrieve('achievements');
+      const localAchievements = await hybridStorage.cachedRecords<Achievement>('achievements');
       if (localAchievements) setAchievements(localAchievements);
     } finally {
       setAchievementsLoading(false);
@@ -252,6 +321,19 @@ function App() {
     fetchTodos(); // Refresh todos after save
   };
 
+  const handleEditTodo = (todo: Todo) => {
+    setEditingTodo(todo);
+    setShowTodoModal(true);
+  };
+
+  const handleToggleTodo = (todo: Todo) => {
+    outbox.update('todos', todo.id, { status: todo.status === 'completed' ? 'pending' : 'completed' }, todo);
+  };
+
+  const handleDeleteTodo = (todo: Todo) => {
+    outbox.remove('todos', todo.id);
+  };
+
   const handleOCRSuccess = (result: CategorizedContent) => {
     // Refresh all data after OCR processing
     fetchAllData();
@@ -318,6 +400,7 @@ function App() {
           {isOnline ? <Wifi className="w-3 h-3 mr-1" /> : <WifiOff className="w-3 h-3 mr-1" />}
           {isOnline ? 'Online' : 'Offline'}
         </div>
+        <SyncStatus changes={pendingChanges} />
       </div>
 
       <main className="px-4 pb-20">
@@ -424,7 +507,16 @@ function App() {
               {todos.slice(0, 5).map((todo) => (
                 <div key={todo.id} className="bg-white/80 backdrop-blur-sm border border-white/20 rounded-xl p-4">
                   <div className="flex items-center justify-between">
-                    <div className="flex-1">
+                    <button
+                      onClick={() => handleToggleTodo(todo)}
+                      title={todo.status === 'completed' ? 'Mark as not done' : 'Mark as done'}
+                      className={`w-6 h-6 mr-3 flex-shrink-0 flex items-center justify-center rounded-full border-2 transition-colors ${
+                        todo.status === 'completed' ? 'bg-green-500 border-green-500 text-white' : 'border-gray-300 hover:border-green-500'
+                      }`}
+                    >
+                      {todo.status === 'completed' && <Check className="w-4 h-4" />}
+                    </button>
+                    <div className="flex-1 cursor-pointer" onClick={() => handleEditTodo(todo)}>
                       <h3 className={`font-medium ${
                         todo.status === 'completed' ? 'text-gray-500 line-through' : 'text-gray-900'
                       }`}>
@@ -459,7 +551,15 @@ function App() {
                           </div>
                         )}
                       </div>
+                      <EntityChips entities={todo.entities} className="mt-2" />
                     </div>
+                    <button
+                      onClick={() => handleDeleteTodo(todo)}
+                      title="Delete"
+                      className="ml-3 p-1 text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
                   </div>
                 </div>
               ))}
@@ -484,6 +584,7 @@ function App() {
                       {event.location && (
                         <p className="text-sm text-gray-500">{event.location}</p>
                       )}
+                      <EntityChips entities={event.entities} className="mt-2" />
                     </div>
                   </div>
                 </div>
@@ -506,14 +607,22 @@ function App() {
 
       <TodoModal
         isOpen={showTodoModal}
-        onClose={() => setShowTodoModal(false)}
+        onClose={() => {
+          setShowTodoModal(false);
+          setEditingTodo(null);
+        }}
+        todo={editingTodo}
         onSave={handleTodoSave}
       />
 
       <OCRUploader
         isOpen={showOCRUploader}
-        onClose={() => setShowOCRUploader(false)}
+        onClose={() => {
+          setShowOCRUploader(false);
+          setSharedContent(null);
+        }}
         onSuccess={handleOCRSuccess}
+        initialContent={sharedContent}
       />
       
       <PWAInstaller />
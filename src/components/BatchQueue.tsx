@@ -0,0 +1,103 @@
+import React from 'react';
+import { CheckCircle, AlertCircle, Loader2, Clock, X, Ban } from 'lucide-react';
+import { BatchFile, BatchStatus } from '../lib/batch';
+import { OCRStage } from '../lib/ocr';
+
+interface BatchQueueProps {
+  files: BatchFile[];
+  onCancel: (id: string) => void;
+}
+
+const statusLabels: Record<BatchStatus, string> = {
+  queued: 'Waiting',
+  preprocessing: 'Cleaning up image',
+  recognizing: 'Reading text',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const stageLabels: Record<OCRStage, string> = {
+  initializing: 'Starting OCR engine',
+  loading_language: 'Loading language data',
+  detecting_language: 'Detecting language',
+  recognizing: 'Reading text'
+};
+
+const isFinished = (status: BatchStatus) => status === 'done' || status === 'failed' || status === 'cancelled';
+
+const statusText = (file: BatchFile): string => {
+  if (file.status === 'done') return `${file.items.length} items`;
+
+  const status = file.status === 'recognizing' && file.progress
+    ? `${stageLabels[file.progress.stage]} ${Math.round(file.progress.progress * 100)}%`
+    : statusLabels[file.status];
+  return file.page && !isFinished(file.status) ? `Page ${file.page.number} of ${file.page.count} • ${status}` : status;
+};
+
+const StatusIcon: React.FC<{ status: BatchStatus }> = ({ status }) => {
+  switch (status) {
+    case 'queued':
+      return <Clock className="w-4 h-4 text-gray-400" />;
+    case 'done':
+      return <CheckCircle className="w-4 h-4 text-green-600" />;
+    case 'failed':
+      return <AlertCircle className="w-4 h-4 text-red-600" />;
+    case 'cancelled':
+      return <Ban className="w-4 h-4 text-gray-400" />;
+    default:
+      return <Loader2 className="w-4 h-4 text-indigo-600 animate-spin" />;
+  }
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ files, onCancel }) => {
+  const finished = files.filter(file => isFinished(file.status)).length;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between text-sm text-gray-700 mb-1">
+          <span>{finished} of {files.length} screenshots processed</span>
+          <span>{Math.round((finished / Math.max(1, files.length)) * 100)}%</span>
+        </div>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-indigo-500 to-purple-600 transition-all duration-300"
+            style={{ width: `${(finished / Math.max(1, files.length)) * 100}%` }}
+          />
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl max-h-80 overflow-y-auto">
+        {files.map(file => (
+          <li key={file.id} className="flex items-center space-x-3 px-3 py-2 text-sm">
+            <StatusIcon status={file.status} />
+            <div className="flex-1 min-w-0">
+              <span className="block truncate text-gray-800" title={file.file.name}>{file.file.name}</span>
+              {file.status === 'recognizing' && file.progress && (
+                <div className="mt-1 h-1 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-500 transition-all duration-200"
+                    style={{ width: `${file.progress.progress * 100}%` }}
+                  />
+                </div>
+              )}
+            </div>
+            <span className={`text-xs ${file.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`} title={file.error}>
+              {statusText(file)}
+            </span>
+            {!isFinished(file.status) && (
+              <button
+                onClick={() => onCancel(file.id)}
+                title="Cancel"
+                className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { User, Link2, Mail, Phone } from 'lucide-react';
+import { ExtractedEntities } from '../lib/entities';
+
+interface EntityChipsProps {
+  entities?: ExtractedEntities | null;
+  className?: string;
+}
+
+const chipClass = 'inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium max-w-[16rem]';
+
+// "zoom.us/j/1" has no scheme and would open as a path on this site
+const linkHref = (link: string) => (/^https?:\/\//i.test(link) ? link : `https://${link}`);
+
+export const EntityChips: React.FC<EntityChipsProps> = ({ entities, className = '' }) => {
+  if (!entities) return null;
+
+  const { people, links, emails, phones } = entities;
+  if (people.length + links.length + emails.length + phones.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {people.map(person => (
+        <span key={`person-${person}`} className={`${chipClass} bg-gray-100 text-gray-800`}>
+          <User className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{person}</span>
+        </span>
+      ))}
+      {links.map(link => (
+        <a
+          key={`link-${link}`}
+          href={linkHref(link)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`${chipClass} bg-indigo-100 text-indigo-800 hover:bg-indigo-200 transition-colors`}
+        >
+          <Link2 className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{link.replace(/^https?:\/\//i, '')}</span>
+        </a>
+      ))}
+      {emails.map(email => (
+        <a
+          key={`email-${email}`}
+          href={`mailto:${email}`}
+          className={`${chipClass} bg-blue-100 text-blue-800 hover:bg-blue-200 transition-colors`}
+        >
+          <Mail className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{email}</span>
+        </a>
+      ))}
+      {phones.map(phone => (
+        <a
+          key={`phone-${phone}`}
+          href={`tel:${phone.replace(/[^\d+]/g, '')}`}
+          className={`${chipClass} bg-green-100 text-green-800 hover:bg-green-200 transition-colors`}
+        >
+          <Phone className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">{phone}</span>
+        </a>
+      ))}
+    </div>
+  );
+};
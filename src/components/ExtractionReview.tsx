@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import { Check, X, Info } from 'lucide-react';
+import { ExtractionExplanation } from '../lib/categorizer';
+import { ConfidenceBand } from '../lib/thresholds';
+import { languageRegistry } from '../lib/languages';
+import { templateRegistry } from '../lib/templates';
+import { EntityChips } from './EntityChips';
+import {
+  ReviewItem,
+  ReviewCategory,
+  reviewCategories,
+  recategorize,
+  countAccepted,
+  toDateTimeInput,
+  fromDateTimeInput
+} from '../lib/review';
+
+interface ExtractionReviewProps {
+  items: ReviewItem[];
+  onChange: (items: ReviewItem[]) => void;
+  // Set for batch uploads so each item shows which screenshot it came from
+  fileNames?: Record<string, string>;
+}
+
+const categoryStyles: Record<ReviewCategory, string> = {
+  todo: 'border-blue-200 bg-blue-50',
+  event: 'border-purple-200 bg-purple-50',
+  reminder: 'border-orange-200 bg-orange-50',
+  achievement: 'border-green-200 bg-green-50',
+  uncategorized: 'border-gray-200 bg-gray-50'
+};
+
+const bandStyles: Record<ConfidenceBand, { label: string; className: string }> = {
+  auto_accept: { label: 'Auto-accepted', className: 'bg-green-100 text-green-800' },
+  review: { label: 'Needs review', className: 'bg-yellow-100 text-yellow-800' },
+  discard: { label: 'Low confidence', className: 'bg-gray-200 text-gray-700' }
+};
+
+const inputClass = 'px-2 py-1 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all';
+
+export const ExtractionReview: React.FC<ExtractionReviewProps> = ({ items, onChange, fileNames }) => {
+  const [explainedIds, setExplainedIds] = useState<string[]>([]);
+
+  const toggleExplanation = (id: string) => {
+    setExplainedIds(ids => (ids.includes(id) ? ids.filter(current => current !== id) : [...ids, id]));
+  };
+
+  const updateItem = (id: string, update: (item: ReviewItem) => ReviewItem) => {
+    onChange(items.map(item => (item.id === id ? update(item) : item)));
+  };
+
+  const setAllAccepted = (accepted: boolean) => {
+    onChange(items.map(item => (item.category === 'uncategorized' ? item : { ...item, accepted })));
+  };
+
+  const acceptedCount = countAccepted(items);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">
+          Review Items ({acceptedCount} of {items.length} accepted)
+        </h3>
+        <div className="flex space-x-2 text-sm">
+          <button
+            onClick={() => setAllAccepted(true)}
+            className="px-3 py-1 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Accept all
+          </button>
+          <button
+            onClick={() => setAllAccepted(false)}
+            className="px-3 py-1 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Reject all
+          </button>
+        </div>
+      </div>
+
+      {items.length === 0 && (
+        <p className="text-sm text-gray-600">No text was found in {fileNames ? 'these images' : 'this image'}.</p>
+      )}
+
+      {items.map(item => (
+        <div
+          key={item.id}
+          className={`border rounded-xl p-3 transition-opacity ${categoryStyles[item.category]} ${
+            item.accepted || item.category === 'uncategorized' ? '' : 'opacity-50'
+          }`}
+        >
+          <div className="flex items-start space-x-3">
+            <button
+              onClick={() => updateItem(item.id, current => ({ ...current, accepted: !current.accepted }))}
+              disabled={item.category === 'uncategorized'}
+              title={item.category === 'uncategorized' ? 'Choose a category to accept this line' : item.accepted ? 'Reject' : 'Accept'}
+              className={`mt-1 w-6 h-6 flex-shrink-0 rounded-md flex items-center justify-center border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                item.accepted ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-400'
+              }`}
+            >
+              {item.accepted ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+            </button>
+
+            <div className="flex-1 space-y-2 min-w-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={item.category}
+                  onChange={(e) => updateItem(item.id, current => recategorize(current, e.target.value as ReviewCategory))}
+                  className={inputClass}
+                >
+                  {reviewCategories.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                {item.category === 'uncategorized' ? (
+                  <span className="flex-1 text-sm text-gray-700 break-words">{item.data.source_text}</span>
+                ) : (
+                  <input
+                    type="text"
+                    value={item.data.title}
+                    onChange={(e) => updateItem(item.id, current =>
+                      current.category === 'uncategorized'
+                        ? current
+                        : { ...current, data: { ...current.data, title: e.target.value } } as ReviewItem
+                    )}
+                    className={`flex-1 min-w-[12rem] ${inputClass}`}
+                  />
+                )}
+                <span className="text-xs text-gray-500">{item.data.confidence.toFixed(1)}%</span>
+                {item.savedAt && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    Saved {new Date(item.savedAt).toLocaleDateString()}
+                  </span>
+                )}
+                {item.band && item.band !== 'auto_accept' && (
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${bandStyles[item.band].className}`}>
+                    {bandStyles[item.band].label}
+                  </span>
+                )}
+                {item.category !== 'uncategorized' && item.data.explanation && (
+                  <button
+                    onClick={() => toggleExplanation(item.id)}
+                    title="Why this category?"
+                    className={`p-1 rounded-md transition-colors ${
+                      explainedIds.includes(item.id) ? 'text-indigo-600 bg-indigo-100' : 'text-gray-400 hover:text-gray-600'
+                    }`}
+                  >
+                    <Info className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              <ReviewFields item={item} onChange={(updated) => updateItem(item.id, () => updated)} />
+
+              {(item.category === 'todo' || item.category === 'event') && <EntityChips entities={item.data.entities} />}
+
+              {item.category !== 'uncategorized' && item.data.explanation && explainedIds.includes(item.id) && (
+                <ExplanationDetails explanation={item.data.explanation} />
+              )}
+
+              {item.category !== 'uncategorized' && item.data.source_text !== item.data.title && (
+                <p className="text-xs text-gray-500 truncate">Source: {item.data.source_text}</p>
+              )}
+
+              {item.category !== 'uncategorized' && item.data.source_page !== undefined && (
+                <p className="text-xs text-gray-500">Page {item.data.source_page}</p>
+              )}
+
+              {fileNames && item.fileId && (
+                <p className="text-xs text-gray-500 truncate">
+                  From {fileNames[item.fileId]}
+                  {item.alsoIn && item.alsoIn.length > 0 && ` • also in ${item.alsoIn.map(fileId => fileNames[fileId]).join(', ')}`}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface ReviewFieldsProps {
+  item: ReviewItem;
+  onChange: (item: ReviewItem) => void;
+}
+
+const ReviewFields: React.FC<ReviewFieldsProps> = ({ item, onChange }) => {
+  switch (item.category) {
+    case 'todo':
+      return (
+        <div className="flex flex-wrap gap-2 text-sm">
+          <select
+            value={item.data.priority}
+            onChange={(e) => onChange({ ...item, data: { ...item.data, priority: e.target.value as typeof item.data.priority } })}
+            className={inputClass}
+          >
+            <option value="low">Low</option>
+            <option value="medium">Medium</option>
+            <option value="high">High</option>
+            <option value="urgent">Urgent</option>
+          </select>
+          <input
+            type="datetime-local"
+            value={toDateTimeInput(item.data.due_date)}
+            onChange={(e) => onChange({ ...item, data: { ...item.data, due_date: fromDateTimeInput(e.target.value) } })}
+            className={inputClass}
+          />
+        </div>
+      );
+    case 'event':
+      return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="datetime-local"
+            value={toDateTimeInput(item.data.start_time)}
+            onChange={(e) => onChange({ ...item, data: { ...item.data, start_time: fromDateTimeInput(e.target.value) || item.data.start_time } })}
+            className={inputClass}
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="datetime-local"
+            value={toDateTimeInput(item.data.end_time)}
+            onChange={(e) => onChange({ ...item, data: { ...item.data, end_time: fromDateTimeInput(e.target.value) || item.data.end_time } })}
+            className={inputClass}
+          />
+          <label className="flex items-center space-x-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={item.data.is_all_day}
+              onChange={(e) => onChange({ ...item, data: { ...item.data, is_all_day: e.target.checked } })}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>All day</span>
+          </label>
+          <input
+            type="text"
+            value={item.data.location ?? ''}
+            placeholder="Location"
+            onChange={(e) => onChange({ ...item, data: { ...item.data, location: e.target.value || undefined } })}
+            className={`flex-1 min-w-[10rem] ${inputClass}`}
+          />
+        </div>
+      );
+    case 'reminder':
+      return (
+        <div className="flex flex-wrap gap-2 text-sm">
+          <select
+            value={item.data.priority}
+            onChange={(e) => onChange({ ...item, data: { ...item.data, priority: e.target.value as typeof item.data.priority } })}
+            className={inputClass}
+          >
+            <option value="low">Low</option>
+            <option value="medium">Medium</option>
+            <option value="high">High</option>
+          </select>
+          <input
+            type="datetime-local"
+            value={toDateTimeInput(item.data.remind_at)}
+            onChange={(e) => onChange({ ...item, data: { ...item.data, remind_at: fromDateTimeInput(e.target.value) || item.data.remind_at } })}
+            className={inputClass}
+          />
+        </div>
+      );
+    case 'achievement':
+      return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="number"
+            min={0}
+            value={item.data.points}
+            onChange={(e) => onChange({ ...item, data: { ...item.data, points: parseInt(e.target.value) || 0 } })}
+            className={`w-24 ${inputClass}`}
+          />
+          <span className="text-gray-500">points</span>
+        </div>
+      );
+    default:
+      return null;
+  }
+};
+
+const categoryLabels = Object.fromEntries(
+  reviewCategories.map(option => [option.value, option.label])
+) as Record<ReviewCategory, string>;
+
+const ExplanationDetails: React.FC<{ explanation: ExtractionExplanation }> = ({ explanation }) => {
+  const { confidence } = explanation;
+  const matches = (Object.entries(explanation.matchedKeywords) as [ReviewCategory, string[]][])
+    .filter(([, keywords]) => keywords.length > 0);
+
+  return (
+    <div className="bg-white/80 border border-gray-200 rounded-lg p-3 text-xs text-gray-700 space-y-1">
+      <div>
+        <span className="text-gray-500">Classifier:</span>{' '}
+        {categoryLabels[explanation.category]} {(explanation.scores[explanation.category] * 100).toFixed(0)}%
+        {explanation.runnerUp && (
+          <span className="text-gray-500">
+            {' '}• runner-up {categoryLabels[explanation.runnerUp.category]} {(explanation.runnerUp.score * 100).toFixed(0)}%
+          </span>
+        )}
+      </div>
+      <div>
+        <span className="text-gray-500">Keywords:</span>{' '}
+        {matches.length > 0
+          ? matches.map(([category, keywords]) => `${categoryLabels[category]}: ${keywords.join(', ')}`).join(' • ')
+          : 'none'}
+      </div>
+      <div>
+        <span className="text-gray-500">Language:</span> {languageRegistry.get(explanation.language).label}
+      </div>
+      {explanation.template && (
+        <div>
+          <span className="text-gray-500">Layout:</span> {templateRegistry.get(explanation.template).label}
+        </div>
+      )}
+      <div>
+        <span className="text-gray-500">Date:</span>{' '}
+        {explanation.dateExpression
+          ? `"${explanation.dateExpression.text}" → ${new Date(explanation.dateExpression.start).toLocaleString()}${
+              explanation.dateExpression.isAllDay ? ' (all day)' : ''
+            }`
+          : 'none found'}
+      </div>
+      <div>
+        <span className="text-gray-500">Confidence:</span>{' '}
+        OCR {explanation.ocrConfidence.toFixed(1)}% × 0.8 = {confidence.base.toFixed(1)}
+        {' '}+ keywords {confidence.keywordBonus} + date {confidence.dateBonus}
+        {confidence.capped && ' (capped at 95)'}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useRef, useState } from 'react';
+import { Wand2, ChevronDown, ChevronUp, Crop, Loader2 } from 'lucide-react';
+import { CropRegion, PreprocessOptions, PreprocessResult, defaultPreprocessOptions, imagePreprocessor } from '../lib/preprocess';
+
+// Without a source (several files selected) only the options are shown, since a crop cannot apply to all of them
+interface ImagePreprocessingProps {
+  source?: string;
+  options: PreprocessOptions;
+  result: PreprocessResult | null;
+  isProcessing: boolean;
+  onChange: (options: PreprocessOptions) => void;
+}
+
+type ToggleOption = Exclude<keyof PreprocessOptions, 'crop'>;
+
+const toggles: { option: ToggleOption; label: string; hint: string }[] = [
+  { option: 'grayscale', label: 'Grayscale', hint: 'Drop color before reading' },
+  { option: 'autoInvert', label: 'Fix dark mode', hint: 'Invert light text on dark backgrounds' },
+  { option: 'normalizeContrast', label: 'Boost contrast', hint: 'Stretch faded photos to full range' },
+  { option: 'binarize', label: 'Black & white', hint: 'Adaptive threshold for uneven lighting' },
+  { option: 'deskew', label: 'Straighten', hint: 'Correct tilted camera captures' },
+  { option: 'upscale', label: 'Enlarge small text', hint: 'Scale up narrow images' }
+];
+
+// Ignore accidental clicks; anything smaller than this is not a meaningful crop
+const MIN_CROP = 0.02;
+
+export const ImagePreprocessing: React.FC<ImagePreprocessingProps> = ({
+  source,
+  options,
+  result,
+  isProcessing,
+  onChange
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<CropRegion | null>(null);
+  const imageRef = useRef<HTMLDivElement>(null);
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const regionBetween = (a: { x: number; y: number }, b: { x: number; y: number }): CropRegion => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y)
+  });
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(pointAt(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragStart) setDraft(regionBetween(dragStart, pointAt(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+
+    const region = regionBetween(dragStart, pointAt(e));
+    setDragStart(null);
+    setDraft(null);
+    if (region.width >= MIN_CROP && region.height >= MIN_CROP) onChange({ ...options, crop: region });
+  };
+
+  const crop = draft ?? options.crop;
+
+  return (
+    <div className="border border-gray-200 rounded-xl">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-3 text-sm text-gray-700 hover:bg-gray-50 rounded-xl transition-colors"
+      >
+        <span className="flex items-center space-x-2">
+          <Wand2 className="w-4 h-4" />
+          <span>Image cleanup</span>
+          {result && result.steps.length > 0 && (
+            <span className="text-xs text-gray-500">{result.steps.length} steps applied</span>
+          )}
+        </span>
+        {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {toggles.map(({ option, label, hint }) => (
+              <label key={option} className="flex items-start space-x-2 text-sm" title={hint}>
+                <input
+                  type="checkbox"
+                  checked={options[option]}
+                  onChange={(e) => onChange({ ...options, [option]: e.target.checked })}
+                  className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span>
+                  <span className="text-gray-800">{label}</span>
+                  <span className="block text-xs text-gray-500">{hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {source && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <div className="flex items-center justify-between mb-1 text-xs text-gray-500">
+                  <span className="flex items-center space-x-1">
+                    <Crop className="w-3 h-3" />
+                    <span>Original — drag to crop</span>
+                  </span>
+                  {options.crop && (
+                    <button
+                      onClick={() => onChange({ ...options, crop: undefined })}
+                      className="text-indigo-600 hover:text-indigo-700"
+                    >
+                      Clear crop
+                    </button>
+                  )}
+                </div>
+                <div
+                  ref={imageRef}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  className="relative cursor-crosshair select-none touch-none"
+                >
+                  <img src={source} alt="Original" draggable={false} className="w-full rounded-lg border border-gray-200" />
+                  {crop && (
+                    <div
+                      className="absolute border-2 border-indigo-500 bg-indigo-500/10 pointer-events-none"
+                      style={{
+                        left: `${crop.x * 100}%`,
+                        top: `${crop.y * 100}%`,
+                        width: `${crop.width * 100}%`,
+                        height: `${crop.height * 100}%`
+                      }}
+                    />
+                  )}
+                </div>
+              </div>
+  
+              <div>
+                <div className="mb-1 text-xs text-gray-500">What OCR will read</div>
+                <div className="relative">
+                  {result ? (
+                    <img src={result.previewUrl} alt="Processed" className="w-full rounded-lg border border-gray-200" />
+                  ) : (
+                    <div className="aspect-square rounded-lg border border-dashed border-gray-200" />
+                  )}
+                  {isProcessing && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-white/60 rounded-lg">
+                      <Loader2 className="w-6 h-6 text-indigo-600 animate-spin" />
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {source && result && (
+            <p className="text-xs text-gray-500">
+              {result.steps.length > 0
+                ? result.steps.map(step => imagePreprocessor.describe(step)).join(' • ')
+                : 'No changes; the original image is used as is'}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => onChange(defaultPreprocessOptions)}
+              className="px-3 py-1 text-sm border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
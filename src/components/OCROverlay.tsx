@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ScanText, ChevronDown, ChevronUp, EyeOff } from 'lucide-react';
+import { OCRBox, OCRResult } from '../lib/ocr';
+import { ReviewCategory, ReviewItem, reviewCategories } from '../lib/review';
+import { Redaction, redactionLabels, redactionService } from '../lib/redaction';
+
+interface OCROverlayProps {
+  // The image OCR read; box coordinates are in its pixels
+  image: Blob;
+  ocr: OCRResult;
+  items: ReviewItem[];
+  onCorrect: (lineIndex: number, wordIndex: number, text: string) => void;
+  // Found automatically or drawn here; all of them are covered before the image is uploaded
+  redactions: Redaction[];
+  onRedactionsChange: (redactions: Redaction[]) => void;
+  // PDFs: the page shown, stamped on the areas hidden here
+  page?: number;
+  // Names the file or page when there are several; each of them then starts folded
+  title?: string;
+}
+
+// Words tesseract was less sure of than this are highlighted for checking
+const LOW_WORD_CONFIDENCE = 60;
+
+// Drags smaller than this, in image pixels, are treated as stray clicks
+const MIN_REDACTION_SIZE = 4;
+
+const categoryBoxStyles: Record<ReviewCategory, string> = {
+  todo: 'border-blue-500 bg-blue-500/10',
+  event: 'border-purple-500 bg-purple-500/10',
+  reminder: 'border-orange-500 bg-orange-500/10',
+  achievement: 'border-green-500 bg-green-500/10',
+  uncategorized: 'border-gray-400 bg-gray-400/10'
+};
+
+const contains = (box: OCRBox, x: number, y: number) => x >= box.x0 && x <= box.x1 && y >= box.y0 && y <= box.y1;
+
+export const OCROverlay: React.FC<OCROverlayProps> = ({ image, ocr, items, onCorrect, redactions, onRedactionsChange, page, title }) => {
+  const [isExpanded, setIsExpanded] = useState(!title);
+  const [url, setUrl] = useState('');
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [selected, setSelected] = useState<{ lineIndex: number; wordIndex: number } | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isRedacting, setIsRedacting] = useState(false);
+  const [drawing, setDrawing] = useState<OCRBox | null>(null);
+  const areaRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [image]);
+
+  // Items keep the box of the lines they were built from, so a line takes the category of the item around it
+  const lineCategories = useMemo(() => ocr.lines.map(line => {
+    const x = (line.bbox.x0 + line.bbox.x1) / 2;
+    const y = (line.bbox.y0 + line.bbox.y1) / 2;
+    const item = items.find(current => current.category !== 'uncategorized' && current.data.source_bbox && contains(current.data.source_bbox, x, y));
+    return item?.category ?? 'uncategorized';
+  }), [ocr.lines, items]);
+
+  const lowConfidenceCount = ocr.lines.reduce(
+    (count, line) => count + (line.words ?? []).filter(word => word.confidence < LOW_WORD_CONFIDENCE).length,
+    0
+  );
+
+  // Email addresses are only covered on request; ones already covered are not offered again
+  const emails = useMemo(() => redactionService.detect(ocr, ['email']).map(email => ({ ...email, page })), [ocr, page]);
+  const uncoveredEmails = emails.filter(email => !redactions.some(redaction => redactionService.sameArea(redaction, email)));
+
+  const selectedWord = selected ? ocr.lines[selected.lineIndex]?.words?.[selected.wordIndex] : undefined;
+
+  const position = (box: OCRBox): React.CSSProperties => size ? {
+    left: `${(box.x0 / size.width) * 100}%`,
+    top: `${(box.y0 / size.height) * 100}%`,
+    width: `${((box.x1 - box.x0) / size.width) * 100}%`,
+    height: `${((box.y1 - box.y0) / size.height) * 100}%`
+  } : { display: 'none' };
+
+  const selectWord = (lineIndex: number, wordIndex: number) => {
+    setSelected({ lineIndex, wordIndex });
+    setDraft(ocr.lines[lineIndex].words![wordIndex].text);
+  };
+
+  // Pointer position in image pixels, the space OCR boxes and redactions use
+  const toImagePoint = (e: React.PointerEvent): { x: number; y: number } => {
+    const rect = areaRef.current!.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(size!.width, ((e.clientX - rect.left) / rect.width) * size!.width)),
+      y: Math.max(0, Math.min(size!.height, ((e.clientY - rect.top) / rect.height) * size!.height))
+    };
+  };
+
+  const startDrawing = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isRedacting || !size) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = toImagePoint(e);
+    setDrawing({ x0: x, y0: y, x1: x, y1: y });
+  };
+
+  const continueDrawing = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drawing) return;
+    const { x, y } = toImagePoint(e);
+    setDrawing({ ...drawing, x1: x, y1: y });
+  };
+
+  const finishDrawing = () => {
+    if (!drawing) return;
+    const bbox = {
+      x0: Math.min(drawing.x0, drawing.x1),
+      y0: Math.min(drawing.y0, drawing.y1),
+      x1: Math.max(drawing.x0, drawing.x1),
+      y1: Math.max(drawing.y0, drawing.y1)
+    };
+    if (bbox.x1 - bbox.x0 >= MIN_REDACTION_SIZE && bbox.y1 - bbox.y0 >= MIN_REDACTION_SIZE) {
+      onRedactionsChange([...redactions, { id: `manual-${Date.now()}`, kind: 'manual', bbox, page }]);
+    }
+    setDrawing(null);
+  };
+
+  const applyCorrection = () => {
+    if (!selected || !selectedWord) return;
+    if (draft.trim() !== selectedWord.text) onCorrect(selected.lineIndex, selected.wordIndex, draft);
+    setSelected(null);
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-xl">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-3 text-sm text-gray-700 hover:bg-gray-50 rounded-xl transition-colors"
+      >
+        <span className="flex items-center space-x-2">
+          <ScanText className="w-4 h-4" />
+          <span>{title ?? 'Recognized text on the image'}</span>
+          {lowConfidenceCount > 0 && (
+            <span className="text-xs text-red-600">{lowConfidenceCount} uncertain {lowConfidenceCount === 1 ? 'word' : 'words'}</span>
+          )}
+        </span>
+        {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+            {reviewCategories.map(({ value, label }) => (
+              <span key={value} className="flex items-center space-x-1">
+                <span className={`inline-block w-3 h-3 border-2 rounded-sm ${categoryBoxStyles[value]}`} />
+                <span>{label}</span>
+              </span>
+            ))}
+            <span className="flex items-center space-x-1">
+              <span className="inline-block w-3 h-3 rounded-sm bg-red-500/40 ring-1 ring-red-500" />
+              <span>Uncertain word</span>
+            </span>
+          </div>
+
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-gray-600">
+              {redactions.length === 0
+                ? 'Nothing will be covered before upload'
+                : page === undefined
+                  ? `${redactions.length} ${redactions.length === 1 ? 'area is' : 'areas are'} covered before upload`
+                  : `${redactions.length} ${redactions.length === 1 ? 'area is' : 'areas are'} hidden, so the PDF is not uploaded`}
+            </span>
+            <span className="flex items-center space-x-2">
+              {uncoveredEmails.length > 0 && (
+                <button
+                  onClick={() => onRedactionsChange([...redactions, ...uncoveredEmails])}
+                  className="px-2 py-1 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Hide {uncoveredEmails.length === 1 ? 'email address' : `${uncoveredEmails.length} email addresses`}
+                </button>
+              )}
+              <button
+                onClick={() => setIsRedacting(!isRedacting)}
+                className={`flex items-center space-x-1 px-2 py-1 rounded-lg border transition-colors ${
+                  isRedacting ? 'bg-gray-900 border-gray-900 text-white' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <EyeOff className="w-3 h-3" />
+                <span>{isRedacting ? 'Done hiding' : 'Hide an area'}</span>
+              </button>
+            </span>
+          </div>
+
+          <div
+            ref={areaRef}
+            onPointerDown={startDrawing}
+            onPointerMove={continueDrawing}
+            onPointerUp={finishDrawing}
+            className={`relative select-none ${isRedacting ? 'cursor-crosshair touch-none' : ''}`}
+          >
+            {url && (
+              <img
+                src={url}
+                alt="Text read by OCR"
+                onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="w-full rounded-lg border border-gray-200"
+              />
+            )}
+
+            {ocr.lines.map((line, lineIndex) => (
+              <React.Fragment key={lineIndex}>
+                <div
+                  className={`absolute border-2 rounded-sm pointer-events-none ${categoryBoxStyles[lineCategories[lineIndex]]}`}
+                  style={position(line.bbox)}
+                />
+                {line.words?.map((word, wordIndex) => (
+                  <button
+                    key={wordIndex}
+                    onClick={() => selectWord(lineIndex, wordIndex)}
+                    title={`${word.text} (${Math.round(word.confidence)}%)`}
+                    className={`absolute rounded-sm transition-colors ${isRedacting ? 'pointer-events-none' : ''} ${
+                      selected?.lineIndex === lineIndex && selected.wordIndex === wordIndex
+                        ? 'ring-2 ring-indigo-600 bg-indigo-500/20'
+                        : word.confidence < LOW_WORD_CONFIDENCE
+                          ? 'bg-red-500/30 ring-1 ring-red-500 hover:bg-red-500/50'
+                          : 'hover:bg-indigo-500/20'
+                    }`}
+                    style={position(word.bbox)}
+                  />
+                ))}
+              </React.Fragment>
+            ))}
+
+            {redactions.map(redaction => (
+              <button
+                key={redaction.id}
+                onClick={() => onRedactionsChange(redactions.filter(current => current.id !== redaction.id))}
+                title={`${redactionLabels[redaction.kind]} • click to upload it uncovered`}
+                className={`absolute rounded-sm bg-gray-900/80 ring-1 ring-gray-900 hover:bg-gray-900/50 transition-colors ${
+                  isRedacting ? 'pointer-events-none' : ''
+                }`}
+                style={position(redaction.bbox)}
+              />
+            ))}
+
+            {drawing && (
+              <div
+                className="absolute border-2 border-dashed border-gray-900 bg-gray-900/30 pointer-events-none"
+                style={position({
+                  x0: Math.min(drawing.x0, drawing.x1),
+                  y0: Math.min(drawing.y0, drawing.y1),
+                  x1: Math.max(drawing.x0, drawing.x1),
+                  y1: Math.max(drawing.y0, drawing.y1)
+                })}
+              />
+            )}
+          </div>
+
+          {isRedacting ? (
+            <p className="text-xs text-gray-500">
+              Drag over anything that should not be uploaded, such as a card number or a code. The text under it is masked too.
+            </p>
+          ) : selectedWord ? (
+            <div className="flex items-center space-x-2 text-sm">
+              <span className="text-gray-600 whitespace-nowrap">
+                "{selectedWord.text}" ({Math.round(selectedWord.confidence)}%)
+              </span>
+              <input
+                type="text"
+                value={draft}
+                autoFocus
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') applyCorrection();
+                  if (e.key === 'Escape') setSelected(null);
+                }}
+                className="flex-1 px-2 py-1 border border-gray-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+              />
+              <button
+                onClick={applyCorrection}
+                className="px-3 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+              >
+                Correct
+              </button>
+              <button
+                onClick={() => setSelected(null)}
+                className="px-3 py-1 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">
+              Click a word to fix what was read. The items below are read again from the corrected text, so edits made to them are reset.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,54 +1,154 @@
-import React, { useState, useRef } from 'react';
-import { Upload, Camera, X, FileText, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
-import { ocrService, OCRResult } from '../lib/ocr';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, Camera, X, FileText, CheckCircle, AlertCircle, Languages, ImageIcon, ClipboardType } from 'lucide-react';
+import { ocrService, correctWord, OCRResult } from '../lib/ocr';
 import { contentCategorizer, CategorizedContent } from '../lib/categorizer';
+import { ReviewItem, toCategorizedContent, countAccepted, getCorrections, dedupeReviewItems, replaceFileItems } from '../lib/review';
+import { preferencesService } from '../lib/preferences';
+import { ConfidenceThresholds, defaultThresholds, resolveThresholds } from '../lib/thresholds';
+import { languageRegistry, LanguageSetting } from '../lib/languages';
+import { PreprocessOptions, PreprocessResult, defaultPreprocessOptions, imagePreprocessor } from '../lib/preprocess';
+import { batchProcessor, BatchFile } from '../lib/batch';
+import { pdfExtractor } from '../lib/pdf';
+import { extractionCache, PreviousExtraction } from '../lib/extractionCache';
+import { redactionService, Redaction } from '../lib/redaction';
+import type { SharedContent } from '../lib/shareTarget';
 import { supabase } from '../lib/supabase';
+import { outbox } from '../lib/outbox';
+import type { User } from '@supabase/supabase-js';
+import { ExtractionReview } from './ExtractionReview';
+import { ThresholdSettings } from './ThresholdSettings';
+import { ImagePreprocessing } from './ImagePreprocessing';
+import { BatchQueue } from './BatchQueue';
+import { PreviousUploads } from './PreviousUploads';
+import { OCROverlay } from './OCROverlay';
+
+// A screenshot, or one page of a PDF, with the lines on it; offset is where they start in the file's lines
+interface PageOverlay {
+  key: string;
+  entry: BatchFile;
+  image: Blob;
+  ocr: OCRResult;
+  offset: number;
+  page?: number;
+  name: string;
+}
 
 interface OCRUploaderProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: (result: CategorizedContent) => void;
+  // Pasted or shared content: images are preselected, text is categorized right away
+  initialContent?: SharedContent | null;
 }
 
 export const OCRUploader: React.FC<OCRUploaderProps> = ({
   isOpen,
   onClose,
-  onSuccess
+  onSuccess,
+  initialContent
 }) => {
-  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<'images' | 'text'>('images');
+  const [noteText, setNoteText] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
   const [preview, setPreview] = useState<string>('');
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [ocrResult, setOcrResult] = useState<OCRResult | null>(null);
-  const [categorizedResult, setCategorizedResult] = useState<CategorizedContent | null>(null);
+  const [batch, setBatch] = useState<BatchFile[]>([]);
+  const [reviewItems, setReviewItems] = useState<ReviewItem[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string>('');
-  const [step, setStep] = useState<'upload' | 'processing' | 'results'>('upload');
+  const [step, setStep] = useState<'upload' | 'previous' | 'processing' | 'results'>('upload');
+  const [batchThresholds, setBatchThresholds] = useState<ConfidenceThresholds>(defaultThresholds);
   const [useMockData, setUseMockData] = useState(false);
+  const [language, setLanguage] = useState<LanguageSetting>('eng');
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(defaultPreprocessOptions);
+  const [preprocessed, setPreprocessed] = useState<PreprocessResult | null>(null);
+  const [isPreprocessing, setIsPreprocessing] = useState(false);
   
+  const batchControllerRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFileSelect = (selectedFile: File) => {
-    if (!selectedFile.type.startsWith('image/')) {
-      setError('Please select an image file');
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadLanguage = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const preferences = await preferencesService.load(user.id);
+      if (preferences.ocrLanguage) setLanguage(preferences.ocrLanguage);
+    };
+
+    loadLanguage();
+  }, [isOpen]);
+
+  // With a single image, re-run the cleanup whenever it or its options change so the preview matches what OCR will read
+  const file = files.length === 1 && files[0].type.startsWith('image/') ? files[0] : null;
+
+  useEffect(() => {
+    setPreprocessed(null);
+    if (!file) return;
+
+    let cancelled = false;
+    setIsPreprocessing(true);
+
+    imagePreprocessor.process(file, preprocessOptions)
+      .then(result => {
+        if (!cancelled) setPreprocessed(result);
+      })
+      .catch(err => console.error('Image preprocessing failed:', err))
+      .finally(() => {
+        if (!cancelled) setIsPreprocessing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, preprocessOptions]);
+
+  const handleLanguageChange = async (setting: LanguageSetting) => {
+    setLanguage(setting);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) await preferencesService.update(user.id, { ocrLanguage: setting });
+  };
+
+  const handleFilesSelect = (selected: FileList | File[]) => {
+    const accepted = Array.from(selected).filter(selectedFile =>
+      selectedFile.type.startsWith('image/') || pdfExtractor.isPdf(selectedFile)
+    );
+    if (accepted.length === 0) {
+      setError('Please select an image or PDF file');
       return;
     }
 
-    setFile(selectedFile);
-    setError('');
-    
+    setFiles(accepted);
+    setPreprocessOptions(defaultPreprocessOptions);
+    setPreview('');
+    setError(accepted.length < selected.length ? `Skipped ${selected.length - accepted.length} files that are not images or PDFs` : '');
+
     // Create preview
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setPreview(e.target?.result as string);
-    };
-    reader.readAsDataURL(selectedFile);
+    if (accepted.length === 1 && accepted[0].type.startsWith('image/')) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        setPreview(e.target?.result as string);
+      };
+      reader.readAsDataURL(accepted[0]);
+    }
+  };
+
+  const removeFile = (index: number) => {
+    const remaining = files.filter((_, current) => current !== index);
+    if (remaining.length === 1) {
+      handleFilesSelect(remaining);
+    } else {
+      setFiles(remaining);
+    }
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile) {
-      handleFileSelect(droppedFile);
+    if (e.dataTransfer.files.length > 0) {
+      handleFilesSelect(e.dataTransfer.files);
     }
   };
 
@@ -56,102 +156,255 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
     e.preventDefault();
   };
 
-  const processImage = async () => {
-    if (!file && !useMockData) return;
+  const processImages = async () => {
+    if (useMockData) {
+      await process(batchProcessor.createFiles([new File([], 'mock-screenshot.png', { type: 'image/png' })]));
+    } else if (files.length > 0) {
+      await process(batchProcessor.createFiles(files));
+    }
+  };
+
+  const processText = (text: string) => process([batchProcessor.createText(text)]);
 
-    setIsProcessing(true);
+  const process = async (entries: BatchFile[]) => {
     setStep('processing');
     setError('');
 
     try {
-      let ocrData: OCRResult;
-      
+      // Classify with the user's own corrections layered on the keyword seeds, banded by their thresholds
+      let thresholds: ConfidenceThresholds = defaultThresholds;
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const preferences = await preferencesService.load(user.id);
+        contentCategorizer.loadModel(preferences.classifier);
+        thresholds = resolveThresholds(preferences.confidenceThresholds);
+      }
+      setBatchThresholds(thresholds);
+
+      ocrService.setLanguage(language);
+
       if (useMockData) {
-        // Use mock data for testing
-        ocrData = ocrService.getMockOCRResult();
-        // Simulate processing delay
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      } else {
-        // Process actual image
-        ocrData = await ocrService.extractText(file!);
+        await runBatch(entries, thresholds);
+        return;
       }
 
-      setOcrResult(ocrData);
+      // Hash before OCR so screenshots uploaded before can reuse their earlier extraction
+      const { unique, repeated } = await batchProcessor.identify(entries);
+      if (repeated.length > 0) setError(`Skipped ${repeated.length} repeated ${repeated.length === 1 ? 'file' : 'files'}`);
+
+      const previous = user
+        ? await extractionCache.findPrevious(user.id, unique.map(entry => entry.hash!))
+        : new Map<string, PreviousExtraction>();
+      const queued = unique.map(entry => {
+        const match = previous.get(entry.hash!);
+        return match ? { ...entry, previous: match, reuse: true } : entry;
+      });
+
+      if (queued.some(entry => entry.previous)) {
+        setBatch(queued);
+        setStep('previous');
+        return;
+      }
+
+      await runBatch(queued, thresholds);
+    } catch (err) {
+      console.error('OCR processing failed:', err);
+      setError('Failed to process image. Please try again.');
+      setStep('upload');
+    }
+  };
+
+  const runBatch = async (queued: BatchFile[], thresholds: ConfidenceThresholds) => {
+    setStep('processing');
+    setBatch(queued);
+
+    const controller = new AbortController();
+    batchControllerRef.current = controller;
+
+    // A crop only makes sense for the one image it was drawn on
+    const processed = await batchProcessor.run(queued, {
+      preprocess: queued.length === 1 ? preprocessOptions : { ...preprocessOptions, crop: undefined },
+      thresholds,
+      useMockData,
+      signal: controller.signal,
+      onUpdate: updated => setBatch(current => current.map(entry => (entry.id === updated.id ? updated : entry)))
+    });
+
+    batchControllerRef.current = null;
+    if (controller.signal.aborted) return;
+
+    const done = processed.filter(entry => entry.status === 'done');
+    if (done.length === 0) {
+      setError(processed.some(entry => entry.status === 'failed') ? 'Failed to process image. Please try again.' : '');
+      setStep('upload');
+      return;
+    }
+
+    // Items repeated across overlapping screenshots are merged; nothing is stored until the user saves the review
+    setBatch(processed);
+    setReviewItems(dedupeReviewItems(done.flatMap(entry => entry.items)));
+    setStep('results');
+  };
+
+  // Each paste or share arrives as a new object; anything that comes in mid-run is ignored
+  const handleShared = (content: SharedContent) => {
+    if (step !== 'upload') return;
 
-      // Categorize the extracted content
-      const categorized = contentCategorizer.categorizeContent(ocrData.text, ocrData.confidence);
-      setCategorizedResult(categorized);
+    if (content.files.length > 0) {
+      handleFilesSelect(content.files);
+    } else if (content.text) {
+      processText(content.text);
+    }
+  };
 
-      // Store in database
-      await storeExtractedData(ocrData, categorized);
+  const handleSharedRef = useRef(handleShared);
+  handleSharedRef.current = handleShared;
 
-      setStep('results');
+  useEffect(() => {
+    if (isOpen && initialContent) handleSharedRef.current(initialContent);
+  }, [isOpen, initialContent]);
+
+  const handleContinue = async () => {
+    try {
+      await runBatch(batch, batchThresholds);
     } catch (err) {
       console.error('OCR processing failed:', err);
       setError('Failed to process image. Please try again.');
-    } finally {
-      setIsProcessing(false);
+      setStep('upload');
     }
   };
 
-  const storeExtractedData = async (ocrData: OCRResult, categorized: CategorizedContent) => {
+  // Stops every file still queued or being read and terminates the OCR workers they were using
+  const cancelBatch = () => {
+    batchControllerRef.current?.abort();
+    batchControllerRef.current = null;
+  };
+
+  useEffect(() => cancelBatch, []);
+
+  const handleCancelAll = () => {
+    cancelBatch();
+    setStep('upload');
+  };
+
+  // Fixing a word re-reads that file's items from the corrected text; what the user already reviewed in
+  // the other files stays as they left it
+  const handleCorrectWord = (entry: BatchFile, lineIndex: number, wordIndex: number, text: string) => {
+    const ocr = correctWord(entry.ocr!, lineIndex, wordIndex, text);
+    const items = batchProcessor.categorize(entry, ocr, batchThresholds);
+    const corrected: BatchFile = {
+      ...entry,
+      ocr,
+      items,
+      redactions: redactionService.redetect(ocr, entry.redactions ?? [], entry.dismissed ?? [])
+    };
+    const originals = batch.filter(current => current.status === 'done').flatMap(current => current.items);
+
+    setBatch(batch.map(current => (current.id === entry.id ? corrected : current)));
+    setReviewItems(current => replaceFileItems(current, entry.id, items, originals));
+  };
+
+  // An overlay only holds the areas on its own PDF page. Detections the user removes are remembered, so
+  // a later correction does not find them again
+  const handleRedactionsChange = (entry: BatchFile, redactions: Redaction[], page?: number) => {
+    setBatch(current => current.map(existing => {
+      if (existing.id !== entry.id) return existing;
+
+      const previous = existing.redactions ?? [];
+      const removed = previous.filter(redaction => (
+        redaction.page === page && redaction.kind !== 'manual' && !redactions.some(kept => kept.id === redaction.id)
+      ));
+      const dismissed = [...(existing.dismissed ?? []), ...removed]
+        .filter(redaction => !redactions.some(added => redactionService.sameArea(redaction, added)));
+      return { ...existing, redactions: [...previous.filter(redaction => redaction.page !== page), ...redactions], dismissed };
+    }));
+  };
+
+  const handleCancelFile = (id: string) => {
+    batchProcessor.cancel(id);
+    setBatch(current => current.map(entry => (entry.id === id ? { ...entry, status: 'cancelled' } : entry)));
+  };
+
+  const markFile = (id: string, changes: Partial<BatchFile>) => {
+    setBatch(current => current.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const storeExtractedData = async (entry: BatchFile, categorized: CategorizedContent, user: User) => {
+    const ocrData = entry.ocr!;
+    const isText = entry.text !== undefined;
+    const isDocument = !isText && pdfExtractor.isPdf(entry.file);
+    const hasNewItems = categorized.todos.length + categorized.events.length + categorized.reminders.length + categorized.achievements.length > 0;
+    const redactions = entry.redactions ?? [];
+
+    // Reusing an earlier extraction only needs a record when it adds items
+    if (entry.reuse && !hasNewItems) return;
+
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('Not authenticated');
 
-      // Store file in Supabase Storage if it's a real file
-      let fileUrl = null;
-      if (file && !useMockData) {
-        const fileName = `${user.id}/${Date.now()}_${file.name}`;
-        const { data: uploadData, error: uploadError } = await supabase.storage
+      // Store file in Supabase Storage if it's a real image or PDF; a file uploaded before keeps its stored copy.
+      // Sensitive areas are painted over first; a PDF cannot be, so one with anything to hide is not uploaded at all
+      let storagePath = entry.uploadedPath ?? entry.previous?.storagePath ?? null;
+      if (!useMockData && !isText && !storagePath && !(isDocument && redactions.length > 0)) {
+        const fileName = `${user.id}/${Date.now()}_${entry.file.name}`;
+        const upload = redactions.length > 0 ? await redactionService.apply(entry.file, redactions, entry.transform) : entry.file;
+        const { error: uploadError } = await supabase.storage
           .from('screenshots')
-          .upload(fileName, file);
+          .upload(fileName, upload);
 
         if (uploadError) throw uploadError;
 
-        const { data: { publicUrl } } = supabase.storage
-          .from('screenshots')
-          .getPublicUrl(fileName);
-        
-        fileUrl = publicUrl;
-
         // Store media metadata
-        await supabase.from('media_storage').insert({
+        const { error: mediaError } = await supabase.from('media_storage').insert({
           user_id: user.id,
-          file_name: file.name,
-          file_type: file.type,
-          file_size: file.size,
+          file_name: entry.file.name,
+          file_type: entry.file.type,
+          file_size: upload.size,
           storage_path: fileName,
-          public_url: fileUrl,
+          content_hash: entry.hash,
           metadata: {
             width: ocrData.metadata.imageSize.width,
             height: ocrData.metadata.imageSize.height,
-            processingTime: ocrData.metadata.processingTime
+            processingTime: ocrData.metadata.processingTime,
+            preprocessing: entry.steps,
+            pageCount: ocrData.pages?.length,
+            redactions: redactions.map(redaction => redaction.kind)
           }
         });
+
+        // Without its row nothing points at the upload, so it is removed again
+        if (mediaError) {
+          await supabase.storage.from('screenshots').remove([fileName]);
+          throw mediaError;
+        }
+
+        // The bucket is private; images are shown through signed URLs resolved from the path
+        storagePath = fileName;
+        markFile(entry.id, { uploadedPath: fileName });
       }
 
-      // Store extracted data
+      // Store extracted data, with what was hidden on the image masked in the text too
+      const stored = redactionService.maskOCR(ocrData, redactions);
       const { error: extractedError } = await supabase
         .from('extracted_data')
         .insert({
           user_id: user.id,
-          source_file_url: fileUrl,
-          extraction_type: 'ocr',
+          source_storage_path: storagePath,
+          extraction_type: isText ? 'text' : isDocument ? 'document_parsing' : 'ocr',
           raw_data: {
-            text: ocrData.text,
-            blocks: ocrData.blocks,
-            metadata: ocrData.metadata
+            text: stored.text,
+            blocks: stored.blocks,
+            lines: stored.lines,
+            pages: stored.pages,
+            metadata: stored.metadata
           },
           processed_data: categorized,
           confidence_score: ocrData.confidence,
-          status: 'completed'
+          status: 'completed',
+          content_hash: entry.hash
         });
 
       if (extractedError) throw extractedError;
-
-      // Store categorized items in their respective tables
-      await storeCategorizedItems(categorized, user.id);
+      markFile(entry.id, { stored: true });
 
     } catch (error) {
       console.error('Error storing extracted data:', error);
@@ -160,6 +413,7 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
   };
 
   const storeCategorizedItems = async (categorized: CategorizedContent, userId: string) => {
+    // Through the outbox, so saved items show up at once and survive a dropped connection
     // Store todos
     if (categorized.todos.length > 0) {
       const todos = categorized.todos.map(todo => ({
@@ -169,10 +423,11 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
         priority: todo.priority,
         status: todo.status,
         due_date: todo.due_date,
-        tags: todo.tags
+        tags: todo.tags,
+        entities: todo.entities
       }));
 
-      await supabase.from('todos').insert(todos);
+      for (const row of todos) await outbox.create('todos', row);
     }
 
     // Store events
@@ -186,10 +441,11 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
         location: event.location,
         event_type: event.event_type,
         color: event.color,
-        is_all_day: event.is_all_day
+        is_all_day: event.is_all_day,
+        entities: event.entities
       }));
 
-      await supabase.from('events').insert(events);
+      for (const row of events) await outbox.create('events', row);
     }
 
     // Store reminders
@@ -204,7 +460,7 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
         priority: reminder.priority
       }));
 
-      await supabase.from('reminders').insert(reminders);
+      for (const row of reminders) await outbox.create('reminders', row);
     }
 
     // Store achievements
@@ -218,33 +474,118 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
         points: achievement.points
       }));
 
-      await supabase.from('achievements').insert(achievements);
+      for (const row of achievements) await outbox.create('achievements', row);
+    }
+  };
+
+  // From the masked items, since the model is synced to the user's preferences
+  const learnFromCorrections = async (user: User, items: ReviewItem[]) => {
+    const corrections = getCorrections(items);
+    if (corrections.length === 0) return;
+
+    for (const correction of corrections) {
+      contentCategorizer.learnCorrection(correction.text, correction.category);
     }
+
+    await preferencesService.update(user.id, { classifier: contentCategorizer.exportModel() });
   };
 
-  const handleSave = () => {
-    if (categorizedResult) {
-      onSuccess(categorizedResult);
+  const handleSave = async () => {
+    const done = batch.filter(entry => entry.status === 'done');
+    if (done.length === 0) return;
+
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      // Nothing leaves the device with what was hidden on its screenshot: each item is masked against the
+      // redactions still on every file it was read from
+      const hidden = new Map(done.map(entry => [entry.id, redactionService.hiddenWords(entry.ocr!, entry.redactions ?? [])]));
+      const masked = redactionService.maskReviewItems(reviewItems, hidden);
+
+      // Each screenshot keeps its own extraction record; the deduplicated items are stored once. Files
+      // recorded before an earlier attempt failed are not recorded again
+      for (const entry of done.filter(current => !current.stored)) {
+        await storeExtractedData(entry, toCategorizedContent(masked.filter(item => item.fileId === entry.id)), user);
+      }
+
+      const accepted = toCategorizedContent(masked);
+      await storeCategorizedItems(accepted, user.id);
+      await learnFromCorrections(user, masked);
+
+      onSuccess(accepted);
       onClose();
       resetState();
+    } catch (err) {
+      console.error('Saving extracted items failed:', err);
+      setError('Failed to save items. Please try again.');
+    } finally {
+      setIsSaving(false);
     }
   };
 
   const resetState = () => {
-    setFile(null);
+    setMode('images');
+    setNoteText('');
+    setFiles([]);
     setPreview('');
-    setOcrResult(null);
-    setCategorizedResult(null);
+    setPreprocessOptions(defaultPreprocessOptions);
+    setBatch([]);
+    setReviewItems([]);
     setError('');
     setStep('upload');
     setUseMockData(false);
   };
 
   const handleClose = () => {
+    cancelBatch();
     onClose();
     resetState();
   };
 
+  const summary = useMemo(() => {
+    const done = batch.filter(entry => entry.status === 'done' && entry.ocr);
+    if (done.length === 0) return null;
+
+    const cleaned = done.filter(entry => entry.steps.length > 0);
+    return {
+      done,
+      confidence: done.reduce((sum, entry) => sum + entry.ocr!.confidence, 0) / done.length,
+      processingTime: done.reduce((sum, entry) => sum + entry.ocr!.metadata.processingTime, 0),
+      languages: Array.from(new Set(done.map(entry => languageRegistry.get(entry.ocr!.metadata.language).label))).join(', '),
+      cleanup: done.length === 1
+        ? (cleaned.length > 0 ? cleaned[0].steps.map(step => imagePreprocessor.describe(step)).join(', ') : 'None')
+        : `${cleaned.length} of ${done.length} images`,
+      duplicates: done.reduce((sum, entry) => sum + entry.items.length, 0) - reviewItems.length,
+      fileNames: Object.fromEntries(batch.map(entry => [entry.id, entry.file.name]))
+    };
+  }, [batch, reviewItems.length]);
+
+  // One overlay per image and per PDF page, each page showing its own lines in the pixels of its image
+  const overlays = useMemo(() => (summary?.done ?? []).flatMap((entry): PageOverlay[] => {
+    const ocr = entry.ocr!;
+    if (entry.image) return [{ key: entry.id, entry, image: entry.image, ocr, offset: 0, name: entry.file.name }];
+    if (!entry.pageImages || !ocr.pages) return [];
+
+    let offset = 0;
+    return ocr.pages.map((page, index) => {
+      const overlay = {
+        key: `${entry.id}-${page.number}`,
+        entry,
+        image: entry.pageImages![index],
+        ocr: { ...ocr, lines: ocr.lines.slice(offset, offset + page.lines.length), pages: undefined },
+        offset,
+        page: page.number,
+        name: `${entry.file.name}, page ${page.number}`
+      };
+      offset += page.lines.length;
+      return overlay;
+    });
+  }), [summary]);
+
   if (!isOpen) return null;
 
   return (
@@ -265,21 +606,57 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
 
           {step === 'upload' && (
             <div className="space-y-6">
-              {/* Mock Data Toggle */}
-              <div className="flex items-center space-x-2 p-3 bg-blue-50 rounded-lg">
-                <input
-                  type="checkbox"
-                  id="mockData"
-                  checked={useMockData}
-                  onChange={(e) => setUseMockData(e.target.checked)}
-                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
-                />
-                <label htmlFor="mockData" className="text-sm text-blue-800">
-                  Use mock data for testing (skip file upload)
-                </label>
+              {/* Input Mode */}
+              <div className="grid grid-cols-2 gap-1 p-1 bg-gray-100 rounded-xl text-sm font-medium">
+                {([
+                  { value: 'images', label: 'Screenshots', Icon: ImageIcon },
+                  { value: 'text', label: 'Paste text', Icon: ClipboardType }
+                ] as const).map(({ value, label, Icon }) => (
+                  <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={`flex items-center justify-center space-x-2 py-2 rounded-lg transition-colors ${
+                      mode === value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" />
+                    <span>{label}</span>
+                  </button>
+                ))}
               </div>
 
-              {!useMockData && (
+              {mode === 'text' && (
+                <div className="space-y-2">
+                  <textarea
+                    value={noteText}
+                    onChange={(e) => setNoteText(e.target.value)}
+                    rows={10}
+                    placeholder={'Meeting notes, a chat thread or a Markdown checklist\n\n## Friday\n- [ ] Send the slides #work\n- Standup at 10am'}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-xl font-mono text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+                  />
+                  <p className="text-xs text-gray-500">
+                    Checkboxes become todos, a heading with a day dates the items under it, and #tags are kept as tags.
+                  </p>
+                </div>
+              )}
+
+              {/* Mock Data Toggle */}
+              {mode === 'images' && (
+                <div className="flex items-center space-x-2 p-3 bg-blue-50 rounded-lg">
+                  <input
+                    type="checkbox"
+                    id="mockData"
+                    checked={useMockData}
+                    onChange={(e) => setUseMockData(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label htmlFor="mockData" className="text-sm text-blue-800">
+                    Use mock data for testing (skip file upload)
+                  </label>
+                </div>
+              )}
+
+              {mode === 'images' && !useMockData && (
                 <>
                   {/* Upload Area */}
                   <div
@@ -296,12 +673,32 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
                         />
                         <p className="text-sm text-gray-600">{file?.name}</p>
                       </div>
+                    ) : files.length > 0 ? (
+                      <div className="space-y-3 text-left">
+                        <p className="text-center font-medium text-gray-900">
+                          {files.length} {files.length === 1 ? 'file' : 'files'} selected
+                        </p>
+                        <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded-lg bg-white">
+                          {files.map((selected, index) => (
+                            <li key={`${selected.name}-${index}`} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                              <span className="truncate text-gray-700">{selected.name}</span>
+                              <button
+                                onClick={() => removeFile(index)}
+                                title="Remove"
+                                className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
                     ) : (
                       <div className="space-y-4">
                         <FileText className="w-12 h-12 text-gray-400 mx-auto" />
                         <div>
                           <p className="text-lg font-medium text-gray-900">
-                            Drop your screenshot here
+                            Drop screenshots or PDFs here
                           </p>
                           <p className="text-gray-600">
                             or click to browse files
@@ -311,6 +708,16 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
                     )}
                   </div>
 
+                  {files.length > 0 && (
+                    <ImagePreprocessing
+                      source={preview || undefined}
+                      options={preprocessOptions}
+                      result={preprocessed}
+                      isProcessing={isPreprocessing}
+                      onChange={setPreprocessOptions}
+                    />
+                  )}
+
                   {/* Action Buttons */}
                   <div className="flex space-x-3">
                     <button
@@ -318,7 +725,7 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
                       className="flex-1 flex items-center justify-center space-x-2 py-3 border border-gray-200 rounded-xl hover:bg-gray-50 transition-colors"
                     >
                       <Upload className="w-5 h-5" />
-                      <span>Choose File</span>
+                      <span>Choose Files</span>
                     </button>
                     
                     <button
@@ -332,6 +739,28 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
                 </>
               )}
 
+              {/* OCR Language; typed text is detected from its words */}
+              {mode === 'images' && (
+                <label className="flex items-center justify-between p-3 border border-gray-200 rounded-xl text-sm text-gray-700">
+                  <span className="flex items-center space-x-2">
+                    <Languages className="w-4 h-4" />
+                    <span>Text language</span>
+                  </span>
+                  <select
+                    value={language}
+                    onChange={(e) => handleLanguageChange(e.target.value as LanguageSetting)}
+                    className="px-2 py-1 border border-gray-200 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+                  >
+                    <option value="auto">Detect automatically</option>
+                    {languageRegistry.list().map(pack => (
+                      <option key={pack.code} value={pack.code}>{pack.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              <ThresholdSettings />
+
               {error && (
                 <div className="p-3 bg-red-100 border border-red-200 text-red-700 rounded-lg text-sm flex items-center space-x-2">
                   <AlertCircle className="w-4 h-4" />
@@ -347,21 +776,34 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
                 >
                   Cancel
                 </button>
-                <button
-                  onClick={processImage}
-                  disabled={!file && !useMockData}
-                  className="flex-1 px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-xl hover:shadow-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-                >
-                  Process Image
-                </button>
+                {mode === 'text' ? (
+                  <button
+                    onClick={() => processText(noteText)}
+                    disabled={noteText.trim().length === 0}
+                    className="flex-1 px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-xl hover:shadow-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                  >
+                    Process Text
+                  </button>
+                ) : (
+                  <button
+                    onClick={processImages}
+                    disabled={files.length === 0 && !useMockData}
+                    className="flex-1 px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-xl hover:shadow-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                  >
+                    {files.length > 1
+                      ? `Process ${files.length} Files`
+                      : files.length === 1 && pdfExtractor.isPdf(files[0]) ? 'Process Document' : 'Process Image'}
+                  </button>
+                )}
               </div>
 
               {/* Hidden file inputs */}
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/*"
-                onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
+                accept="image/*,application/pdf"
+                multiple
+                onChange={(e) => e.target.files && e.target.files.length > 0 && handleFilesSelect(e.target.files)}
                 className="hidden"
               />
               <input
@@ -369,25 +811,42 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
                 type="file"
                 accept="image/*"
                 capture="environment"
-                onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
+                onChange={(e) => e.target.files && e.target.files.length > 0 && handleFilesSelect(e.target.files)}
                 className="hidden"
               />
             </div>
           )}
 
+          {step === 'previous' && (
+            <PreviousUploads
+              files={batch}
+              onChange={(id, reuse) => setBatch(current => current.map(entry => (entry.id === id ? { ...entry, reuse } : entry)))}
+              onBack={() => setStep('upload')}
+              onContinue={handleContinue}
+            />
+          )}
+
           {step === 'processing' && (
-            <div className="text-center py-12">
-              <Loader2 className="w-12 h-12 text-indigo-600 animate-spin mx-auto mb-4" />
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                Processing Image...
-              </h3>
-              <p className="text-gray-600">
-                Extracting text and categorizing content
-              </p>
+            <div className="space-y-4 py-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                  {batch.length > 1 ? 'Processing Images...' : batch[0]?.text !== undefined ? 'Processing Text...' : 'Processing Image...'}
+                </h3>
+                <p className="text-gray-600">
+                  Extracting text and categorizing content
+                </p>
+              </div>
+              <BatchQueue files={batch} onCancel={handleCancelFile} />
+              <button
+                onClick={handleCancelAll}
+                className="w-full px-4 py-3 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors font-medium"
+              >
+                Cancel
+              </button>
             </div>
           )}
 
-          {step === 'results' && categorizedResult && (
+          {step === 'results' && summary && (
             <div className="space-y-6">
               <div className="flex items-center space-x-2 text-green-600">
                 <CheckCircle className="w-5 h-5" />
@@ -395,128 +854,81 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
               </div>
 
               {/* OCR Results Summary */}
-              {ocrResult && (
-                <div className="bg-gray-50 rounded-xl p-4">
-                  <h3 className="font-semibold text-gray-900 mb-2">Extraction Summary</h3>
-                  <div className="grid grid-cols-2 gap-4 text-sm">
+              <div className="bg-gray-50 rounded-xl p-4">
+                <h3 className="font-semibold text-gray-900 mb-2">Extraction Summary</h3>
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  {batch.length > 1 && (
                     <div>
-                      <span className="text-gray-600">Confidence:</span>
-                      <span className="ml-2 font-medium">{ocrResult.confidence.toFixed(1)}%</span>
+                      <span className="text-gray-600">Screenshots:</span>
+                      <span className="ml-2 font-medium">{summary.done.length} of {batch.length} processed</span>
                     </div>
+                  )}
+                  <div>
+                    <span className="text-gray-600">Confidence:</span>
+                    <span className="ml-2 font-medium">{summary.confidence.toFixed(1)}%</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Processing Time:</span>
+                    <span className="ml-2 font-medium">{summary.processingTime}ms</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Language:</span>
+                    <span className="ml-2 font-medium">{summary.languages}</span>
+                  </div>
+                  <div>
+                    <span className="text-gray-600">Image Cleanup:</span>
+                    <span className="ml-2 font-medium">{summary.cleanup}</span>
+                  </div>
+                  {summary.duplicates > 0 && (
                     <div>
-                      <span className="text-gray-600">Processing Time:</span>
-                      <span className="ml-2 font-medium">{ocrResult.metadata.processingTime}ms</span>
+                      <span className="text-gray-600">Duplicates Merged:</span>
+                      <span className="ml-2 font-medium">{summary.duplicates}</span>
                     </div>
-                  </div>
+                  )}
                 </div>
-              )}
-
-              {/* Categorized Results */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {/* Todos */}
-                {categorizedResult.todos.length > 0 && (
-                  <div className="bg-blue-50 rounded-xl p-4">
-                    <h4 className="font-semibold text-blue-900 mb-3">
-                      Todos ({categorizedResult.todos.length})
-                    </h4>
-                    <div className="space-y-2">
-                      {categorizedResult.todos.slice(0, 3).map((todo, index) => (
-                        <div key={index} className="text-sm">
-                          <div className="font-medium text-blue-800">{todo.title}</div>
-                          <div className="text-blue-600">
-                            Priority: {todo.priority} • Confidence: {todo.confidence.toFixed(1)}%
-                          </div>
-                        </div>
-                      ))}
-                      {categorizedResult.todos.length > 3 && (
-                        <div className="text-sm text-blue-600">
-                          +{categorizedResult.todos.length - 3} more
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
+              </div>
 
-                {/* Events */}
-                {categorizedResult.events.length > 0 && (
-                  <div className="bg-purple-50 rounded-xl p-4">
-                    <h4 className="font-semibold text-purple-900 mb-3">
-                      Events ({categorizedResult.events.length})
-                    </h4>
-                    <div className="space-y-2">
-                      {categorizedResult.events.slice(0, 3).map((event, index) => (
-                        <div key={index} className="text-sm">
-                          <div className="font-medium text-purple-800">{event.title}</div>
-                          <div className="text-purple-600">
-                            {event.event_type} • Confidence: {event.confidence.toFixed(1)}%
-                          </div>
-                        </div>
-                      ))}
-                      {categorizedResult.events.length > 3 && (
-                        <div className="text-sm text-purple-600">
-                          +{categorizedResult.events.length - 3} more
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
+              {/* Word boxes over each screenshot or page, colored by the category each line ended up in */}
+              {overlays.map(overlay => (
+                <OCROverlay
+                  key={overlay.key}
+                  image={overlay.image}
+                  ocr={overlay.ocr}
+                  items={reviewItems.filter(item => (
+                    item.fileId === overlay.entry.id && (item.category === 'uncategorized' || item.data.source_page === overlay.page)
+                  ))}
+                  onCorrect={(lineIndex, wordIndex, text) => handleCorrectWord(overlay.entry, overlay.offset + lineIndex, wordIndex, text)}
+                  redactions={(overlay.entry.redactions ?? []).filter(redaction => redaction.page === overlay.page)}
+                  onRedactionsChange={(redactions) => handleRedactionsChange(overlay.entry, redactions, overlay.page)}
+                  page={overlay.page}
+                  title={overlays.length > 1 ? overlay.name : undefined}
+                />
+              ))}
 
-                {/* Reminders */}
-                {categorizedResult.reminders.length > 0 && (
-                  <div className="bg-orange-50 rounded-xl p-4">
-                    <h4 className="font-semibold text-orange-900 mb-3">
-                      Reminders ({categorizedResult.reminders.length})
-                    </h4>
-                    <div className="space-y-2">
-                      {categorizedResult.reminders.slice(0, 3).map((reminder, index) => (
-                        <div key={index} className="text-sm">
-                          <div className="font-medium text-orange-800">{reminder.title}</div>
-                          <div className="text-orange-600">
-                            Priority: {reminder.priority} • Confidence: {reminder.confidence.toFixed(1)}%
-                          </div>
-                        </div>
-                      ))}
-                      {categorizedResult.reminders.length > 3 && (
-                        <div className="text-sm text-orange-600">
-                          +{categorizedResult.reminders.length - 3} more
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
+              {/* Review extracted items before anything is written */}
+              <ExtractionReview
+                items={reviewItems}
+                onChange={setReviewItems}
+                fileNames={batch.length > 1 ? summary.fileNames : undefined}
+              />
 
-                {/* Achievements */}
-                {categorizedResult.achievements.length > 0 && (
-                  <div className="bg-green-50 rounded-xl p-4">
-                    <h4 className="font-semibold text-green-900 mb-3">
-                      Achievements ({categorizedResult.achievements.length})
-                    </h4>
-                    <div className="space-y-2">
-                      {categorizedResult.achievements.slice(0, 3).map((achievement, index) => (
-                        <div key={index} className="text-sm">
-                          <div className="font-medium text-green-800">{achievement.title}</div>
-                          <div className="text-green-600">
-                            {achievement.points} points • Confidence: {achievement.confidence.toFixed(1)}%
-                          </div>
-                        </div>
-                      ))}
-                      {categorizedResult.achievements.length > 3 && (
-                        <div className="text-sm text-green-600">
-                          +{categorizedResult.achievements.length - 3} more
-                        </div>
-                      )}
+              {/* Raw Text Preview */}
+              <div className="bg-gray-50 rounded-xl p-4">
+                <h4 className="font-semibold text-gray-900 mb-2">Extracted Text</h4>
+                <div className="text-sm text-gray-700 max-h-32 overflow-y-auto bg-white p-3 rounded border space-y-2">
+                  {summary.done.map(entry => (
+                    <div key={entry.id}>
+                      {summary.done.length > 1 && <div className="text-xs font-medium text-gray-500">{entry.file.name}</div>}
+                      <div className="whitespace-pre-wrap">{entry.ocr!.text}</div>
                     </div>
-                  </div>
-                )}
+                  ))}
+                </div>
               </div>
 
-              {/* Raw Text Preview */}
-              {ocrResult && (
-                <div className="bg-gray-50 rounded-xl p-4">
-                  <h4 className="font-semibold text-gray-900 mb-2">Extracted Text</h4>
-                  <div className="text-sm text-gray-700 max-h-32 overflow-y-auto bg-white p-3 rounded border">
-                    {ocrResult.text}
-                  </div>
+              {error && (
+                <div className="p-3 bg-red-100 border border-red-200 text-red-700 rounded-lg text-sm flex items-center space-x-2">
+                  <AlertCircle className="w-4 h-4" />
+                  <span>{error}</span>
                 </div>
               )}
 
@@ -524,15 +936,17 @@ export const OCRUploader: React.FC<OCRUploaderProps> = ({
               <div className="flex space-x-3">
                 <button
                   onClick={() => setStep('upload')}
-                  className="flex-1 px-4 py-3 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors font-medium"
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-3 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
                 >
                   Process Another
                 </button>
                 <button
                   onClick={handleSave}
-                  className="flex-1 px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-xl hover:shadow-lg transition-all duration-200 transform hover:scale-105 font-medium"
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-xl hover:shadow-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
                 >
-                  Save Results
+                  {isSaving ? 'Saving...' : `Save ${countAccepted(reviewItems)} Items`}
                 </button>
               </div>
             </div>
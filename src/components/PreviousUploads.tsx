@@ -0,0 +1,86 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { BatchFile } from '../lib/batch';
+import { StoredImage } from './StoredImage';
+
+interface PreviousUploadsProps {
+  files: BatchFile[];
+  onChange: (id: string, reuse: boolean) => void;
+  onBack: () => void;
+  onContinue: () => void;
+}
+
+export const PreviousUploads: React.FC<PreviousUploadsProps> = ({ files, onChange, onBack, onContinue }) => {
+  const matched = files.filter(file => file.previous);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start space-x-3 p-3 bg-blue-50 rounded-lg text-sm text-blue-800">
+        <History className="w-5 h-5 flex-shrink-0" />
+        <p>
+          {matched.length === 1 ? 'This screenshot was' : `${matched.length} of these screenshots were`} uploaded before.
+          Reusing the earlier result skips reading the text again; items you already saved start unchecked either way.
+        </p>
+      </div>
+
+      <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl max-h-80 overflow-y-auto">
+        {matched.map(file => (
+          <li key={file.id} className="px-3 py-2 text-sm flex items-start space-x-3">
+            {file.previous!.storagePath && (
+              <StoredImage
+                path={file.previous!.storagePath}
+                alt={`Earlier upload of ${file.file.name}`}
+                className="w-12 h-12 flex-shrink-0 object-cover rounded border border-gray-200"
+              />
+            )}
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="truncate text-gray-800" title={file.file.name}>{file.file.name}</span>
+                <span className="text-xs text-gray-500">
+                  read {new Date(file.previous!.extractedAt).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="flex space-x-4 text-gray-700">
+                <label className="flex items-center space-x-1">
+                  <input
+                    type="radio"
+                    name={`reuse-${file.id}`}
+                    checked={file.reuse === true}
+                    onChange={() => onChange(file.id, true)}
+                    className="text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Reuse earlier result</span>
+                </label>
+                <label className="flex items-center space-x-1">
+                  <input
+                    type="radio"
+                    name={`reuse-${file.id}`}
+                    checked={file.reuse !== true}
+                    onChange={() => onChange(file.id, false)}
+                    className="text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>Read again</span>
+                </label>
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex space-x-3">
+        <button
+          onClick={onBack}
+          className="flex-1 px-4 py-3 border border-gray-200 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors font-medium"
+        >
+          Back
+        </button>
+        <button
+          onClick={onContinue}
+          className="flex-1 px-4 py-3 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-xl hover:shadow-lg transition-all duration-200 transform hover:scale-105 font-medium"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { ImageIcon } from 'lucide-react';
+import { mediaService } from '../lib/media';
+
+interface StoredImageProps {
+  path: string;
+  alt: string;
+  className?: string;
+}
+
+// An image from the private screenshots bucket, re-signed before its URL expires and once more if it fails to load
+export const StoredImage: React.FC<StoredImageProps> = ({ path, alt, className = '' }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      const signed = await mediaService.signedUrl(path);
+      if (cancelled) return;
+      if (!signed) {
+        setFailed(true);
+        return;
+      }
+
+      setUrl(signed.url);
+      timer = setTimeout(load, mediaService.refreshDelay(signed));
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [path, attempt]);
+
+  const handleError = () => {
+    mediaService.invalidate(path);
+    if (attempt === 0) {
+      setAttempt(1);
+    } else {
+      setFailed(true);
+    }
+  };
+
+  if (failed || !url) {
+    return (
+      <div className={`flex items-center justify-center bg-gray-100 text-gray-400 ${className}`} title={failed ? 'Image unavailable' : undefined}>
+        <ImageIcon className="w-4 h-4" />
+      </div>
+    );
+  }
+
+  return <img src={url} alt={alt} onError={handleError} className={className} />;
+};
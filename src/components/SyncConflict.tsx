@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import { outbox, OutboxEntry } from '../lib/outbox';
+import { FieldChoice } from '../lib/conflicts';
+
+interface SyncConflictProps {
+  change: OutboxEntry;
+  label: string;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(empty)';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return new Date(value).toLocaleString();
+  return String(value);
+};
+
+const fieldLabel = (field: string) => field.charAt(0).toUpperCase() + field.slice(1).replace(/_/g, ' ');
+
+// Both devices changed the same fields: the user picks which value each keeps; the rest is already merged
+export const SyncConflict: React.FC<SyncConflictProps> = ({ change, label }) => {
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({});
+  const conflict = change.conflict!;
+
+  return (
+    <div className="p-3 bg-amber-50 rounded-lg text-sm text-amber-900 space-y-2">
+      <p className="flex items-center font-medium">
+        <GitMerge className="w-4 h-4 mr-1 flex-shrink-0" />
+        {label} was also changed on another device
+      </p>
+
+      <div className="space-y-2">
+        {conflict.conflicts.map(field => (
+          <div key={field.field} className="text-xs">
+            <p className="font-medium mb-1">{fieldLabel(field.field)}</p>
+            <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-1 sm:space-y-0">
+              {(['local', 'remote'] as const).map(side => (
+                <label key={side} className="flex items-center space-x-1 min-w-0">
+                  <input
+                    type="radio"
+                    name={`${change.id}-${field.field}`}
+                    checked={(choices[field.field] ?? 'local') === side}
+                    onChange={() => setChoices(current => ({ ...current, [field.field]: side }))}
+                    className="text-amber-600 focus:ring-amber-500"
+                  />
+                  <span className="truncate">
+                    {side === 'local' ? 'This device' : 'Other device'}: {formatValue(field[side])}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex space-x-2">
+        <button
+          onClick={() => outbox.resolveConflict(
+            change.id,
+            Object.fromEntries(conflict.conflicts.map(field => [field.field, choices[field.field] ?? 'local']))
+          )}
+          className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-xs font-medium"
+        >
+          Save choices
+        </button>
+        <button
+          onClick={() => outbox.discard(change.id)}
+          className="px-3 py-1 border border-amber-300 rounded-lg hover:bg-amber-100 transition-colors text-xs font-medium"
+        >
+          Discard this device's changes
+        </button>
+      </div>
+    </div>
+  );
+};
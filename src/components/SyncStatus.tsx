@@ -0,0 +1,85 @@
+import React from 'react';
+import { AlertCircle, RefreshCw, Trash2 } from 'lucide-react';
+import { outbox, OutboxEntry, OutboxOperation } from '../lib/outbox';
+import { SyncConflict } from './SyncConflict';
+
+interface SyncStatusProps {
+  changes: OutboxEntry[];
+}
+
+const operationLabels: Record<OutboxOperation, string> = {
+  create: 'Add',
+  update: 'Edit',
+  delete: 'Delete'
+};
+
+const tableLabels: Record<OutboxEntry['table'], string> = {
+  todos: 'to-do',
+  events: 'event',
+  reminders: 'reminder',
+  achievements: 'achievement'
+};
+
+const describe = (entry: OutboxEntry): string => {
+  const title = typeof entry.patch.title === 'string' ? ` “${entry.patch.title}”` : '';
+  return `${operationLabels[entry.operation]} ${tableLabels[entry.table]}${title}`;
+};
+
+// Changes waiting for the server, the ones it refused with a way to retry or drop each,
+// and the ones that clash with an edit from another device
+export const SyncStatus: React.FC<SyncStatusProps> = ({ changes }) => {
+  const failed = changes.filter(change => change.error);
+  const conflicts = changes.filter(change => change.conflict);
+  const waiting = changes.length - failed.length - conflicts.length;
+
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {waiting > 0 && (
+        <div className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+          <RefreshCw className="w-3 h-3 mr-1" />
+          {waiting === 1 ? '1 change' : `${waiting} changes`} waiting to sync
+        </div>
+      )}
+
+      {conflicts.map(change => (
+        <SyncConflict key={change.id} change={change} label={describe(change)} />
+      ))}
+
+      {failed.length > 0 && (
+        <div className="p-3 bg-red-50 rounded-lg text-sm text-red-800">
+          <p className="flex items-center font-medium">
+            <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+            {failed.length === 1 ? '1 change' : `${failed.length} changes`} could not be saved
+          </p>
+          <ul className="mt-2 space-y-1">
+            {failed.map(change => (
+              <li key={change.id} className="flex items-center justify-between space-x-2 text-xs">
+                <span className="min-w-0">
+                  <span className="font-medium">{describe(change)}</span>: {change.error}
+                </span>
+                <span className="flex flex-shrink-0 space-x-1">
+                  <button
+                    onClick={() => outbox.retry(change.id)}
+                    title="Try again"
+                    className="p-1 rounded hover:bg-red-100 transition-colors"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => outbox.discard(change.id)}
+                    title="Discard this change"
+                    className="p-1 rounded hover:bg-red-100 transition-colors"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
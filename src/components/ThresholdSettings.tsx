@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { preferencesService } from '../lib/preferences';
+import { ConfidenceThresholds, CategoryThreshold, defaultThresholds, resolveThresholds } from '../lib/thresholds';
+import type { ExtractedCategory } from '../lib/categorizer';
+
+const categories: { value: ExtractedCategory; label: string }[] = [
+  { value: 'todo', label: 'Todos' },
+  { value: 'event', label: 'Events' },
+  { value: 'reminder', label: 'Reminders' },
+  { value: 'achievement', label: 'Achievements' }
+];
+
+export const ThresholdSettings: React.FC = () => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [thresholds, setThresholds] = useState<ConfidenceThresholds>(defaultThresholds);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => {
+    if (!isExpanded) return;
+
+    const loadThresholds = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setUserId(user.id);
+      const preferences = await preferencesService.load(user.id);
+      setThresholds(resolveThresholds(preferences.confidenceThresholds));
+    };
+
+    loadThresholds();
+  }, [isExpanded]);
+
+  const updateThreshold = (category: ExtractedCategory, field: keyof CategoryThreshold, value: number) => {
+    setIsSaved(false);
+    setThresholds(current => {
+      const next = { ...current[category], [field]: value };
+
+      // Keep the review band below the auto-accept band
+      if (field === 'review' && next.review > next.autoAccept) next.autoAccept = next.review;
+      if (field === 'autoAccept' && next.autoAccept < next.review) next.review = next.autoAccept;
+
+      return { ...current, [category]: next };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!userId) return;
+
+    setIsSaving(true);
+    try {
+      await preferencesService.update(userId, { confidenceThresholds: thresholds });
+      setIsSaved(true);
+    } catch (error) {
+      console.error('Error saving thresholds:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-xl">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-3 text-sm text-gray-700 hover:bg-gray-50 rounded-xl transition-colors"
+      >
+        <span className="flex items-center space-x-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          <span>Confidence thresholds</span>
+        </span>
+        {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3">
+          <p className="text-xs text-gray-500">
+            Items at or above the auto-accept level are accepted for you. Items between the two levels are held for
+            review, and anything below the review level is left uncategorized.
+          </p>
+
+          {categories.map(({ value, label }) => (
+            <div key={value} className="grid grid-cols-3 gap-3 items-center text-sm">
+              <span className="font-medium text-gray-800">{label}</span>
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-500 text-xs">Review</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={thresholds[value].review}
+                  onChange={(e) => updateThreshold(value, 'review', Number(e.target.value))}
+                  className="w-16 px-2 py-1 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="text-gray-500 text-xs">Auto-accept</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={thresholds[value].autoAccept}
+                  onChange={(e) => updateThreshold(value, 'autoAccept', Number(e.target.value))}
+                  className="w-16 px-2 py-1 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+                />
+              </label>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-end space-x-3">
+            {isSaved && <span className="text-xs text-green-600">Saved</span>}
+            <button
+              onClick={() => setThresholds(defaultThresholds)}
+              className="px-3 py-1 text-sm border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Reset
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !userId}
+              className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { X, Plus, Check, Clock, Flag, Tag } from 'lucide-react';
 import { supabase, Todo } from '../lib/supabase';
-import { hybridStorage } from '../lib/storage';
+import { outbox } from '../lib/outbox';
 
 interface TodoModalProps {
   isOpen: boolean;
@@ -62,7 +62,9 @@ export const TodoModal: React.FC<TodoModalProps> = ({
 
     setIsLoading(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      // The stored session, which unlike getUser() needs no request and works offline
+      const { data: { session } } = await supabase.auth.getSession();
+      const user = session?.user;
       if (!user) throw new Error('Not authenticated');
 
       const todoData = {
@@ -74,26 +76,13 @@ export const TodoModal: React.FC<TodoModalProps> = ({
         user_id: user.id
       };
 
+      // Shown right away and written when there is a connection; a refused change is listed with the sync status
       if (todo) {
-        // Update existing todo
-        const { error } = await supabase
-          .from('todos')
-          .update(todoData)
-          .eq('id', todo.id);
-        
-        if (error) throw error;
+        await outbox.update('todos', todo.id, todoData, todo);
       } else {
-        // Create new todo
-        const { error } = await supabase
-          .from('todos')
-          .insert([todoData]);
-        
-        if (error) throw error;
+        await outbox.create('todos', { ...todoData, status: 'pending' });
       }
 
-      // Store in hybrid storage for offline access
-      await hybridStorage.store(`todo_${todo?.id || 'new'}`, todoData);
-
       onSave();
       onClose();
       resetForm();
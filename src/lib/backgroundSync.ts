@@ -0,0 +1,79 @@
+import { supabaseUrl, supabaseKey } from './supabase';
+import { AsyncStorage } from './storage';
+import { outbox, OutboxEntry, OutboxResult } from './outbox';
+
+// Shared with public/background-sync.js
+const SYNC_TAG = 'background-sync';
+const CONFIG_KEY = 'backgroundSyncConfig';
+
+// What the service worker needs to call Supabase on its own; the session itself is read from the
+// key supabase-js keeps it under, so a token refreshed there is the one the app uses next
+export interface BackgroundSyncConfig {
+  url: string;
+  anonKey: string;
+  sessionKey: string;
+}
+
+type WorkerMessage =
+  | { type: 'outbox-replay' }
+  | { type: 'outbox-synced'; results: OutboxResult[] };
+
+// Background Sync is not in TypeScript's DOM types yet
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+class BackgroundSyncService {
+  private registered = false;
+
+  // Hands the service worker its configuration, asks for a sync while changes are waiting,
+  // and follows what the service worker does with them
+  start(): () => void {
+    if (!('serviceWorker' in navigator)) return () => {};
+
+    const config: BackgroundSyncConfig = {
+      url: supabaseUrl,
+      anonKey: supabaseKey,
+      // supabase-js's default storage key
+      sessionKey: `sb-${new URL(supabaseUrl).hostname.split('.')[0]}-auth-token`
+    };
+    AsyncStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+
+    const handleMessage = async (event: MessageEvent<WorkerMessage>) => {
+      if (event.data?.type === 'outbox-replay') {
+        outbox.replay();
+      } else if (event.data?.type === 'outbox-synced') {
+        await outbox.reload();
+        outbox.notifyReplayed(event.data.results);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    const unsubscribe = outbox.subscribe(entries => this.schedule(entries));
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+      unsubscribe();
+    };
+  }
+
+  // One registration covers everything waiting; the browser fires it once there is a connection,
+  // even after this tab is closed
+  private async schedule(entries: OutboxEntry[]): Promise<void> {
+    if (!entries.some(entry => !entry.error && !entry.conflict)) {
+      this.registered = false;
+      return;
+    }
+    if (this.registered) return;
+
+    this.registered = true;
+    try {
+      const registration: SyncRegistration = await navigator.serviceWorker.ready;
+      await registration.sync?.register(SYNC_TAG);
+    } catch (error) {
+      this.registered = false;
+      console.error('Error registering background sync:', error);
+    }
+  }
+}
+
+export const backgroundSync = new BackgroundSyncService();
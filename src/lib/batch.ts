@@ -0,0 +1,251 @@
+import { ocrService, OCRProgress, OCRResult, isAbortError } from './ocr';
+import { contentCategorizer } from './categorizer';
+import { layoutAnalyzer } from './layout';
+import { templateRegistry } from './templates';
+import { ReviewItem, markPreviouslySaved, toReviewItems } from './review';
+import { ConfidenceThresholds } from './thresholds';
+import { imagePreprocessor, ImageTransform, PreprocessOptions, PreprocessStep } from './preprocess';
+import { extractionCache, PreviousExtraction } from './extractionCache';
+import { languageRegistry } from './languages';
+import { pdfExtractor } from './pdf';
+import { redactionService, Redaction } from './redaction';
+
+export type BatchStatus = 'queued' | 'preprocessing' | 'recognizing' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchFile {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  ocr?: OCRResult;
+  progress?: OCRProgress;
+  steps: PreprocessStep[];
+  items: ReviewItem[];
+  error?: string;
+  // SHA-256 of the file, and an earlier extraction of the same bytes if there is one
+  hash?: string;
+  previous?: PreviousExtraction;
+  // Use the previous OCR instead of running tesseract again
+  reuse?: boolean;
+  // Pasted or shared text, categorized as is without OCR
+  text?: string;
+  // PDFs: the page being read
+  page?: { number: number; count: number };
+  // The image OCR read, after cleanup, so word boxes can be drawn over it, and how it maps onto the original
+  image?: Blob;
+  transform?: ImageTransform;
+  // PDFs: each page as an image in the pixels of its boxes
+  pageImages?: Blob[];
+  // Regions hidden before the file is uploaded and masked in the stored text, in OCR box pixels, and
+  // the detected ones the user removed, which finding them again after a correction leaves out
+  redactions?: Redaction[];
+  dismissed?: Redaction[];
+  // Saving: where the file was uploaded and whether its extraction record was written, so saving again
+  // after a later file failed neither uploads nor records it twice
+  uploadedPath?: string;
+  stored?: boolean;
+}
+
+export interface BatchOptions {
+  preprocess: PreprocessOptions;
+  thresholds: ConfidenceThresholds;
+  useMockData?: boolean;
+  // Aborting cancels every file in the batch, e.g. when the uploader is closed
+  signal?: AbortSignal;
+  onUpdate: (file: BatchFile) => void;
+}
+
+let nextBatchId = 0;
+
+class BatchProcessor {
+  private controllers = new Map<string, AbortController>();
+
+  createFiles(files: File[]): BatchFile[] {
+    return files.map(file => {
+      const id = `file-${Date.now()}-${nextBatchId++}`;
+      this.controllers.set(id, new AbortController());
+      return { id, file, status: 'queued', steps: [], items: [] };
+    });
+  }
+
+  // The text is also wrapped in a file so hashing, reuse and storage treat it like a screenshot
+  createText(text: string, name = 'pasted-text.txt'): BatchFile {
+    const [entry] = this.createFiles([new File([text], name, { type: 'text/plain' })]);
+    return { ...entry, text };
+  }
+
+  // Hashes every file and drops repeats of the same bytes within the selection
+  async identify(files: BatchFile[]): Promise<{ unique: BatchFile[]; repeated: BatchFile[] }> {
+    const seen = new Set<string>();
+    const unique: BatchFile[] = [];
+    const repeated: BatchFile[] = [];
+
+    for (const file of files) {
+      const hash = await extractionCache.hash(file.file);
+      if (seen.has(hash)) {
+        repeated.push(file);
+        this.controllers.delete(file.id);
+        continue;
+      }
+
+      seen.add(hash);
+      unique.push({ ...file, hash });
+    }
+
+    return { unique, repeated };
+  }
+
+  // Runs as many files at once as the OCR pool has workers; each update is a new object so React sees the change
+  async run(files: BatchFile[], options: BatchOptions): Promise<BatchFile[]> {
+    const results = new Map(files.map(file => [file.id, file]));
+    const queue = [...files];
+
+    const isCancelled = (file: BatchFile) => this.controllers.get(file.id)?.signal.aborted ?? false;
+    const cancelAll = () => files.forEach(file => this.cancel(file.id));
+    options.signal?.addEventListener('abort', cancelAll, { once: true });
+    if (options.signal?.aborted) cancelAll();
+
+    // Once cancelled, later progress from a file that was already running is ignored
+    const update = (file: BatchFile, changes: Partial<BatchFile>) => {
+      const cancelled = isCancelled(file);
+      if (cancelled && results.get(file.id)!.status === 'cancelled') return;
+
+      const next: BatchFile = { ...results.get(file.id)!, ...(cancelled ? { status: 'cancelled' } : changes) };
+      results.set(file.id, next);
+      options.onUpdate(next);
+    };
+
+    const runNext = async (): Promise<void> => {
+      for (let file = queue.shift(); file; file = queue.shift()) {
+        if (isCancelled(file)) {
+          update(file, { status: 'cancelled' });
+          continue;
+        }
+
+        try {
+          const processed = await this.processFile(file, options, changes => update(file!, changes));
+          update(file, { ...processed, progress: undefined, page: undefined, status: 'done' });
+        } catch (error) {
+          if (isAbortError(error)) {
+            update(file, { status: 'cancelled' });
+            continue;
+          }
+          console.error(`Processing ${file.file.name} failed:`, error);
+          update(file, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    };
+
+    const lanes = options.useMockData ? 1 : Math.min(files.length, ocrService.getPoolSize());
+    await Promise.all(Array.from({ length: lanes }, runNext));
+
+    options.signal?.removeEventListener('abort', cancelAll);
+    files.forEach(file => this.controllers.delete(file.id));
+    return files.map(file => results.get(file.id)!);
+  }
+
+  // Queued files are skipped; a file already being read has its OCR worker stopped
+  cancel(id: string): void {
+    this.controllers.get(id)?.abort();
+  }
+
+  // Review items for a file's text; run again when the user corrects recognized words
+  categorize(file: BatchFile, ocr: OCRResult, thresholds: ConfidenceThresholds): ReviewItem[] {
+    // Categorizing is synchronous, so switching the language here cannot interleave with another file
+    contentCategorizer.setLanguage(ocr.metadata.language);
+    const items: ReviewItem[] = this.itemsFor(file, ocr, thresholds).map(item => ({ ...item, fileId: file.id }));
+    return file.previous ? markPreviouslySaved(items, file.previous.saved, file.previous.extractedAt) : items;
+  }
+
+  private async processFile(
+    file: BatchFile,
+    options: BatchOptions,
+    update: (changes: Partial<BatchFile>) => void
+  ): Promise<Pick<BatchFile, 'ocr' | 'steps' | 'items' | 'image' | 'transform' | 'pageImages' | 'redactions'>> {
+    const signal = this.controllers.get(file.id)!.signal;
+    let ocr: OCRResult;
+    let steps: PreprocessStep[] = [];
+    let image: Blob | undefined;
+    let transform: ImageTransform | undefined;
+    let pageImages: Blob[] | undefined;
+
+    if (file.reuse && file.previous) {
+      ocr = file.previous.ocr;
+    } else if (file.text !== undefined) {
+      ocr = this.fromText(file.text);
+    } else if (pdfExtractor.isPdf(file.file)) {
+      update({ status: 'recognizing' });
+      ({ ocr, steps, images: pageImages } = await pdfExtractor.extract(file.file, {
+        preprocess: options.preprocess,
+        signal,
+        onPage: (number, count) => update({ page: { number, count }, progress: undefined }),
+        onProgress: progress => update({ progress })
+      }));
+    } else if (options.useMockData) {
+      update({ status: 'recognizing', progress: { stage: 'recognizing', progress: 0 } });
+      ocr = ocrService.getMockOCRResult();
+      // Simulate processing delay
+      for (let tick = 1; tick <= 10; tick++) {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        if (signal.aborted) throw new DOMException('OCR was cancelled', 'AbortError');
+        update({ progress: { stage: 'recognizing', progress: tick / 10 } });
+      }
+    } else {
+      update({ status: 'preprocessing' });
+      const prepared = await imagePreprocessor.process(file.file, options.preprocess);
+      steps = prepared.steps;
+
+      update({ status: 'recognizing', steps });
+      image = steps.length > 0 ? prepared.image : file.file;
+      transform = steps.length > 0 ? prepared.transform : undefined;
+      ocr = await ocrService.extractText(image, {
+        signal,
+        onProgress: progress => update({ progress })
+      });
+    }
+
+    return {
+      ocr,
+      steps,
+      image,
+      transform,
+      pageImages,
+      redactions: redactionService.detect(ocr),
+      items: this.categorize(file, ocr, options.thresholds)
+    };
+  }
+
+  private itemsFor(file: BatchFile, ocr: OCRResult, thresholds: ConfidenceThresholds): ReviewItem[] {
+    if (file.text !== undefined) {
+      return toReviewItems(contentCategorizer.categorizeNotes(ocr.text), ocr.confidence, thresholds);
+    }
+
+    // Pages are laid out one at a time so items never span a page break and keep the page they are on
+    if (ocr.pages) {
+      return ocr.pages.flatMap(page => {
+        const layout = layoutAnalyzer.groupItems({ ...ocr, text: page.text, confidence: page.confidence, lines: page.lines })
+          .map(item => ({ ...item, page: page.number }));
+        return toReviewItems(contentCategorizer.categorizeItems(layout), page.confidence, thresholds);
+      });
+    }
+
+    // Invites, emails and chats have their own extractors; anything else goes through the generic categorizer
+    return toReviewItems(templateRegistry.categorize(ocr), ocr.confidence, thresholds);
+  }
+
+  // Typed text has no recognition errors and no layout; its items come from the Markdown structure instead
+  private fromText(text: string): OCRResult {
+    return {
+      text,
+      confidence: 100,
+      blocks: [],
+      lines: [],
+      metadata: {
+        language: languageRegistry.detect(text),
+        processingTime: 0,
+        imageSize: { width: 0, height: 0 }
+      }
+    };
+  }
+}
+
+export const batchProcessor = new BatchProcessor();
@@ -1,4 +1,11 @@
-import { format, parse, isValid, addDays, addWeeks, addMonths } from 'date-fns';
+import { dateParser, addCalendarDays, DateExpression, DateParserOptions } from './dateParser';
+import { layoutAnalyzer, LayoutItem } from './layout';
+import { NaiveBayesClassifier, ClassLabel, ClassifierModel, Classification, tokenize } from './classifier';
+import type { OCRBox } from './ocr';
+import { languageRegistry, LanguagePack, OCRLanguage } from './languages';
+import { markdownParser } from './markdown';
+import { entityExtractor, ExtractedEntities } from './entities';
+import type { TemplateName } from './templates';
 
 export interface CategorizedContent {
   todos: ExtractedTodo[];
@@ -8,6 +15,30 @@ export interface CategorizedContent {
   uncategorized: string[];
 }
 
+// Why an item got its category and confidence, kept for debugging bad extractions
+export interface ExtractionExplanation {
+  category: ClassLabel;
+  language: OCRLanguage;
+  matchedKeywords: Record<ExtractedCategory, string[]>;
+  scores: Record<ClassLabel, number>;
+  runnerUp?: { category: ClassLabel; score: number };
+  dateExpression?: {
+    text: string;
+    start: string;
+    end?: string;
+    isAllDay: boolean;
+  };
+  ocrConfidence: number;
+  // Screenshot layout the item was extracted with, when one was recognized
+  template?: TemplateName;
+  confidence: {
+    base: number;
+    keywordBonus: number;
+    dateBonus: number;
+    capped: boolean;
+  };
+}
+
 export interface ExtractedTodo {
   title: string;
   description?: string;
@@ -15,8 +46,12 @@ export interface ExtractedTodo {
   status: 'pending' | 'in_progress' | 'completed';
   due_date?: string;
   tags: string[];
+  entities?: ExtractedEntities;
   confidence: number;
   source_text: string;
+  source_bbox?: OCRBox;
+  source_page?: number;
+  explanation?: ExtractionExplanation;
 }
 
 export interface ExtractedEvent {
@@ -28,8 +63,12 @@ export interface ExtractedEvent {
   event_type: 'meeting' | 'appointment' | 'task' | 'reminder' | 'personal';
   color: string;
   is_all_day: boolean;
+  entities?: ExtractedEntities;
   confidence: number;
   source_text: string;
+  source_bbox?: OCRBox;
+  source_page?: number;
+  explanation?: ExtractionExplanation;
 }
 
 export interface ExtractedReminder {
@@ -41,6 +80,9 @@ export interface ExtractedReminder {
   priority: 'low' | 'medium' | 'high';
   confidence: number;
   source_text: string;
+  source_bbox?: OCRBox;
+  source_page?: number;
+  explanation?: ExtractionExplanation;
 }
 
 export interface ExtractedAchievement {
@@ -51,51 +93,54 @@ export interface ExtractedAchievement {
   points: number;
   confidence: number;
   source_text: string;
+  source_bbox?: OCRBox;
+  source_page?: number;
+  explanation?: ExtractionExplanation;
 }
 
+export type ExtractedCategory = 'todo' | 'event' | 'reminder' | 'achievement';
+
+export type ExtractedItem = ExtractedTodo | ExtractedEvent | ExtractedReminder | ExtractedAchievement;
+
+export type CategorizedItem =
+  | { category: 'todo'; item: ExtractedTodo }
+  | { category: 'event'; item: ExtractedEvent }
+  | { category: 'reminder'; item: ExtractedReminder }
+  | { category: 'achievement'; item: ExtractedAchievement }
+  | { category: 'uncategorized'; text: string };
+
 class ContentCategorizer {
-  private todoKeywords = [
-    'todo', 'task', 'complete', 'finish', 'do', 'need to', 'must', 'should',
-    'deadline', 'due', 'submit', 'deliver', 'work on', 'fix', 'update',
-    'buy', 'get', 'pick up', 'call', 'email', 'contact', 'schedule'
-  ];
-
-  private eventKeywords = [
-    'meeting', 'appointment', 'conference', 'call', 'session', 'interview',
-    'lunch', 'dinner', 'party', 'event', 'gathering', 'presentation',
-    'workshop', 'training', 'seminar', 'class', 'lesson'
-  ];
-
-  private reminderKeywords = [
-    'reminder', 'remind', 'don\'t forget', 'remember', 'note', 'alert',
-    'notify', 'ping', 'follow up', 'check', 'review'
-  ];
-
-  private achievementKeywords = [
-    'achievement', 'unlocked', 'completed', 'milestone', 'goal reached',
-    'success', 'accomplished', 'finished', 'badge', 'reward', 'level up',
-    'streak', 'progress', 'target met'
-  ];
-
-  private priorityKeywords = {
-    urgent: ['urgent', 'asap', 'immediately', 'critical', 'emergency'],
-    high: ['important', 'priority', 'high', 'crucial', 'vital'],
-    medium: ['medium', 'normal', 'regular'],
-    low: ['low', 'minor', 'optional', 'when possible']
-  };
+  private pack: LanguagePack = languageRegistry.get('eng');
+
+  // Seeded from every language's keyword lists, so mixed-language notes still classify; per-user
+  // corrections are layered on top via loadModel
+  private classifier = new NaiveBayesClassifier({
+    todo: languageRegistry.list().flatMap(pack => pack.keywords.todo),
+    event: [...languageRegistry.list().flatMap(pack => pack.keywords.event), '__time', '__time'],
+    reminder: languageRegistry.list().flatMap(pack => pack.keywords.reminder),
+    achievement: languageRegistry.list().flatMap(pack => pack.keywords.achievement)
+  });
+
+  // Language used for dates, priorities and titles of the next items, set from OCR detection or the user's setting
+  setLanguage(language: OCRLanguage): void {
+    this.pack = languageRegistry.get(language);
+  }
 
-  private timePatterns = [
-    /(\d{1,2}):(\d{2})\s*(am|pm)/gi,
-    /(\d{1,2})\s*(am|pm)/gi,
-    /(tomorrow|today|tonight)/gi,
-    /(monday|tuesday|wednesday|thursday|friday|saturday|sunday)/gi,
-    /(next week|this week|next month|this month)/gi,
-    /(\d{1,2}\/\d{1,2}\/\d{2,4})/gi,
-    /(\d{1,2}-\d{1,2}-\d{2,4})/gi
-  ];
-
-  categorizeContent(text: string, confidence: number): CategorizedContent {
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
+  getLanguage(): OCRLanguage {
+    return this.pack.code;
+  }
+
+  categorizeContent(text: string, confidence: number, options: DateParserOptions = {}): CategorizedContent {
+    return this.categorizeItems(layoutAnalyzer.fromText(text, confidence), options);
+  }
+
+  // Typed or pasted notes: Markdown checkboxes, headings and #tags shape the items instead of OCR layout
+  categorizeNotes(text: string, options: DateParserOptions = {}): CategorizedContent {
+    return this.categorizeItems(markdownParser.parse(text, 100, this.dateOptions(options)), options);
+  }
+
+  // Categorize whole layout items, each of which may span several OCR lines
+  categorizeItems(items: LayoutItem[], options: DateParserOptions = {}): CategorizedContent {
     const result: CategorizedContent = {
       todos: [],
       events: [],
@@ -104,101 +149,170 @@ class ContentCategorizer {
       uncategorized: []
     };
 
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (trimmedLine.length < 3) continue;
-
-      const category = this.classifyLine(trimmedLine);
-      const lineConfidence = this.calculateLineConfidence(trimmedLine, category, confidence);
+    for (const item of items) {
+      const categorized = this.categorizeItem(item, options);
+      if (!categorized) continue;
 
-      switch (category) {
+      switch (categorized.category) {
         case 'todo':
-          result.todos.push(this.extractTodo(trimmedLine, lineConfidence));
+          result.todos.push(categorized.item);
           break;
         case 'event':
-          result.events.push(this.extractEvent(trimmedLine, lineConfidence));
+          result.events.push(categorized.item);
           break;
         case 'reminder':
-          result.reminders.push(this.extractReminder(trimmedLine, lineConfidence));
+          result.reminders.push(categorized.item);
           break;
         case 'achievement':
-          result.achievements.push(this.extractAchievement(trimmedLine, lineConfidence));
+          result.achievements.push(categorized.item);
           break;
         default:
-          result.uncategorized.push(trimmedLine);
+          result.uncategorized.push(categorized.text);
       }
     }
 
     return result;
   }
 
-  private classifyLine(line: string): string {
-    const lowerLine = line.toLowerCase();
-    
-    // Check for achievements first (most specific)
-    if (this.achievementKeywords.some(keyword => lowerLine.includes(keyword))) {
-      return 'achievement';
-    }
-
-    // Check for reminders
-    if (this.reminderKeywords.some(keyword => lowerLine.includes(keyword))) {
-      return 'reminder';
-    }
-
-    // Check for events (meetings, appointments)
-    if (this.eventKeywords.some(keyword => lowerLine.includes(keyword))) {
-      return 'event';
-    }
-
-    // Check for todos (most general)
-    if (this.todoKeywords.some(keyword => lowerLine.includes(keyword))) {
-      return 'todo';
-    }
-
-    // If it has time patterns, likely an event or reminder
-    if (this.timePatterns.some(pattern => pattern.test(line))) {
-      return lowerLine.includes('remind') ? 'reminder' : 'event';
+  categorizeItem(item: LayoutItem, options: DateParserOptions = {}): CategorizedItem | null {
+    const text = item.text.trim();
+    if (text.length < 3) return null;
+
+    // Items under a dated heading fall on that day unless they name their own
+    if (item.date) options = { ...options, defaultDate: item.date };
+
+    // A checkbox is a todo whatever its words say, and a template's category beats the classifier's
+    const forced = item.category ?? (item.checked === undefined ? undefined : 'todo');
+    const classified = this.classifier.classify(text, this.dateOptions(options));
+    const classification: Classification = forced ? { ...classified, label: forced } : classified;
+    const explanation = this.explain(text, classification, item.confidence, options);
+    const lineConfidence = this.calculateLineConfidence(explanation);
+    const source = { source_bbox: item.bbox, source_page: item.page, explanation };
+
+    switch (classification.label) {
+      case 'todo': {
+        const todo = this.extractTodo(text, lineConfidence, options);
+        return {
+          category: 'todo',
+          item: {
+            ...todo,
+            status: item.checked ? 'completed' : todo.status,
+            tags: Array.from(new Set([...todo.tags, ...(item.tags ?? [])])),
+            ...source
+          }
+        };
+      }
+      case 'event':
+        return { category: 'event', item: { ...this.extractEvent(text, lineConfidence, options), ...source } };
+      case 'reminder':
+        return { category: 'reminder', item: { ...this.extractReminder(text, lineConfidence, options), ...source } };
+      case 'achievement':
+        return { category: 'achievement', item: { ...this.extractAchievement(text, lineConfidence), ...source } };
+      default:
+        return { category: 'uncategorized', text };
     }
+  }
 
-    return 'uncategorized';
+  // Apply a correction the user made during review so future lines are classified the same way
+  learnCorrection(text: string, category: ClassLabel): void {
+    this.classifier.learn(text, category, this.dateOptions());
   }
 
-  private calculateLineConfidence(line: string, category: string, baseConfidence: number): number {
-    let confidence = baseConfidence * 0.8; // Start with 80% of OCR confidence
+  loadModel(model?: ClassifierModel | null): void {
+    this.classifier.load(model);
+  }
 
-    const lowerLine = line.toLowerCase();
-    let keywordMatches = 0;
+  exportModel(): ClassifierModel {
+    return this.classifier.export();
+  }
 
-    // Count keyword matches for the category
+  // Re-extract a line as a specific category, used when a user moves an item during review
+  extractAs(category: 'todo', line: string, confidence: number, options?: DateParserOptions): ExtractedTodo;
+  extractAs(category: 'event', line: string, confidence: number, options?: DateParserOptions): ExtractedEvent;
+  extractAs(category: 'reminder', line: string, confidence: number, options?: DateParserOptions): ExtractedReminder;
+  extractAs(category: 'achievement', line: string, confidence: number, options?: DateParserOptions): ExtractedAchievement;
+  extractAs(category: ExtractedCategory, line: string, confidence: number, options?: DateParserOptions): ExtractedItem;
+  extractAs(category: ExtractedCategory, line: string, confidence: number, options: DateParserOptions = {}): ExtractedItem {
     switch (category) {
       case 'todo':
-        keywordMatches = this.todoKeywords.filter(keyword => lowerLine.includes(keyword)).length;
-        break;
+        return this.extractTodo(line, confidence, options);
       case 'event':
-        keywordMatches = this.eventKeywords.filter(keyword => lowerLine.includes(keyword)).length;
-        break;
+        return this.extractEvent(line, confidence, options);
       case 'reminder':
-        keywordMatches = this.reminderKeywords.filter(keyword => lowerLine.includes(keyword)).length;
-        break;
+        return this.extractReminder(line, confidence, options);
       case 'achievement':
-        keywordMatches = this.achievementKeywords.filter(keyword => lowerLine.includes(keyword)).length;
-        break;
+        return this.extractAchievement(line, confidence);
     }
+  }
 
-    // Boost confidence based on keyword matches
-    confidence += keywordMatches * 5;
+  // Read with the active language's date words; template extractors use it to find date and timestamp lines
+  extractDate(line: string, options: DateParserOptions = {}): DateExpression | null {
+    return dateParser.parse(line, this.dateOptions(options));
+  }
 
-    // Boost if it has time/date information
-    if (this.timePatterns.some(pattern => pattern.test(line))) {
-      confidence += 10;
-    }
+  private explain(
+    text: string,
+    classification: Classification,
+    ocrConfidence: number,
+    options: DateParserOptions
+  ): ExtractionExplanation {
+    const { keywords } = this.pack;
+    const matchedKeywords = {
+      todo: this.matchKeywords(text, keywords.todo),
+      event: this.matchKeywords(text, keywords.event),
+      reminder: this.matchKeywords(text, keywords.reminder),
+      achievement: this.matchKeywords(text, keywords.achievement)
+    };
+
+    const ranked = (Object.entries(classification.scores) as [ClassLabel, number][])
+      .filter(([label]) => label !== classification.label)
+      .sort(([, a], [, b]) => b - a);
+    const runnerUp = ranked.length > 0 ? { category: ranked[0][0], score: ranked[0][1] } : undefined;
 
-    return Math.min(confidence, 95); // Cap at 95%
+    const expression = this.extractDate(text, options);
+    const dateExpression = expression ? {
+      text: expression.text,
+      start: expression.start.toISOString(),
+      end: expression.end?.toISOString(),
+      isAllDay: expression.isAllDay
+    } : undefined;
+
+    // Start with 80% of OCR confidence, boost for keyword matches and time/date information
+    const base = ocrConfidence * 0.8;
+    const keywordBonus = classification.label === 'uncategorized' ? 0 : matchedKeywords[classification.label].length * 5;
+    const dateBonus = expression ? 10 : 0;
+
+    return {
+      category: classification.label,
+      language: this.pack.code,
+      matchedKeywords,
+      scores: classification.scores,
+      runnerUp,
+      dateExpression,
+      ocrConfidence,
+      confidence: {
+        base,
+        keywordBonus,
+        dateBonus,
+        capped: base + keywordBonus + dateBonus > 95
+      }
+    };
+  }
+
+  private calculateLineConfidence(explanation: ExtractionExplanation): number {
+    const { base, keywordBonus, dateBonus } = explanation.confidence;
+    return Math.min(base + keywordBonus + dateBonus, 95); // Cap at 95%
+  }
+
+  // Whole-word keyword matches, so "do" does not match "doctor"
+  private matchKeywords(line: string, keywords: string[]): string[] {
+    const tokens = new Set(tokenize(line));
+    return keywords.filter(keyword => tokens.has(keyword));
   }
 
-  private extractTodo(line: string, confidence: number): ExtractedTodo {
+  private extractTodo(line: string, confidence: number, options: DateParserOptions): ExtractedTodo {
     const priority = this.extractPriority(line);
-    const dueDate = this.extractDate(line);
+    const dueDate = this.extractDueDate(line, options);
     const tags = this.extractTags(line);
     
     // Determine status based on keywords
@@ -213,37 +327,39 @@ class ContentCategorizer {
 
     return {
       title: this.cleanTitle(line),
-      description: line.length > 50 ? line : undefined,
+      description: line.length > 50 || line.includes('\n') ? line : undefined,
       priority,
       status,
       due_date: dueDate,
       tags,
+      entities: entityExtractor.extract(line, this.pack),
       confidence,
       source_text: line
     };
   }
 
-  private extractEvent(line: string, confidence: number): ExtractedEvent {
-    const timeInfo = this.extractTimeInfo(line);
-    const location = this.extractLocation(line);
+  private extractEvent(line: string, confidence: number, options: DateParserOptions): ExtractedEvent {
+    const timeInfo = this.extractTimeInfo(line, options);
+    const location = entityExtractor.location(line, this.pack, this.dateOptions(options));
     const eventType = this.determineEventType(line);
 
     return {
       title: this.cleanTitle(line),
-      description: line.length > 50 ? line : undefined,
+      description: line.length > 50 || line.includes('\n') ? line : undefined,
       start_time: timeInfo.start,
       end_time: timeInfo.end,
       location,
       event_type: eventType,
       color: this.getEventColor(eventType),
       is_all_day: timeInfo.isAllDay,
+      entities: entityExtractor.extract(line, this.pack),
       confidence,
       source_text: line
     };
   }
 
-  private extractReminder(line: string, confidence: number): ExtractedReminder {
-    const remindAt = this.extractDate(line) || this.getDefaultReminderTime();
+  private extractReminder(line: string, confidence: number, options: DateParserOptions): ExtractedReminder {
+    const remindAt = this.extractRemindAt(line, options);
     const priority = this.extractPriority(line);
     const isRecurring = this.isRecurring(line);
 
@@ -277,7 +393,7 @@ class ContentCategorizer {
   private extractPriority(line: string): 'low' | 'medium' | 'high' | 'urgent' {
     const lowerLine = line.toLowerCase();
     
-    for (const [priority, keywords] of Object.entries(this.priorityKeywords)) {
+    for (const [priority, keywords] of Object.entries(this.pack.priorityKeywords)) {
       if (keywords.some(keyword => lowerLine.includes(keyword))) {
         return priority as 'low' | 'medium' | 'high' | 'urgent';
       }
@@ -286,98 +402,54 @@ class ContentCategorizer {
     return 'medium';
   }
 
-  private extractDate(line: string): string | undefined {
-    const now = new Date();
-    const lowerLine = line.toLowerCase();
+  // The active language's date words and day/month order, unless the caller set an order explicitly
+  private dateOptions(options: DateParserOptions = {}): DateParserOptions {
+    return { dateOrder: this.pack.dateOrder, locale: this.pack.dateLocale, ...options };
+  }
 
-    // Handle relative dates
-    if (lowerLine.includes('today')) {
-      return now.toISOString();
-    }
-    if (lowerLine.includes('tomorrow')) {
-      return addDays(now, 1).toISOString();
-    }
-    if (lowerLine.includes('next week')) {
-      return addWeeks(now, 1).toISOString();
-    }
-    if (lowerLine.includes('next month')) {
-      return addMonths(now, 1).toISOString();
-    }
+  // An all-day due date means "by the end of that day"
+  private extractDueDate(line: string, options: DateParserOptions): string | undefined {
+    const expression = this.extractDate(line, options);
+    const day = expression?.date ?? options.defaultDate;
+    if (!day) return undefined;
+    if (expression && !expression.isAllDay) return expression.start.toISOString();
 
-    // Try to parse specific dates
-    for (const pattern of this.timePatterns) {
-      const match = pattern.exec(line);
-      if (match) {
-        try {
-          const dateStr = match[0];
-          const parsed = parse(dateStr, 'M/d/yyyy', now);
-          if (isValid(parsed)) {
-            return parsed.toISOString();
-          }
-        } catch (error) {
-          // Continue to next pattern
-        }
-      }
-    }
+    return dateParser.toDate(day, { hour: 23, minute: 59 }, options).toISOString();
+  }
 
-    return undefined;
+  private extractRemindAt(line: string, options: DateParserOptions): string {
+    const expression = this.extractDate(line, options);
+    const day = expression?.date ?? options.defaultDate;
+    if (!day) return this.getDefaultReminderTime(options);
+    if (expression && !expression.isAllDay) return expression.start.toISOString();
+
+    return dateParser.toDate(day, { hour: 9, minute: 0 }, options).toISOString();
   }
 
-  private extractTimeInfo(line: string): { start: string; end: string; isAllDay: boolean } {
-    const now = new Date();
-    const baseDate = this.extractDate(line) || now.toISOString();
-    const baseDateTime = new Date(baseDate);
-
-    // Look for time patterns
-    const timeMatch = line.match(/(\d{1,2}):?(\d{2})?\s*(am|pm)/i);
-    if (timeMatch) {
-      const hour = parseInt(timeMatch[1]);
-      const minute = parseInt(timeMatch[2] || '0');
-      const isPM = timeMatch[3].toLowerCase() === 'pm';
-      
-      const adjustedHour = isPM && hour !== 12 ? hour + 12 : (!isPM && hour === 12 ? 0 : hour);
-      
-      baseDateTime.setHours(adjustedHour, minute, 0, 0);
-      
-      const endTime = new Date(baseDateTime);
-      endTime.setHours(endTime.getHours() + 1); // Default 1 hour duration
+  private extractTimeInfo(line: string, options: DateParserOptions): { start: string; end: string; isAllDay: boolean } {
+    const expression = this.extractDate(line, options);
+
+    if (expression && !expression.isAllDay) {
+      // Default 1 hour duration when no end time is given
+      const end = expression.end ?? new Date(expression.start.getTime() + 60 * 60 * 1000);
 
       return {
-        start: baseDateTime.toISOString(),
-        end: endTime.toISOString(),
+        start: expression.start.toISOString(),
+        end: end.toISOString(),
         isAllDay: false
       };
     }
 
-    // Default to all-day event
-    baseDateTime.setHours(9, 0, 0, 0); // 9 AM start
-    const endTime = new Date(baseDateTime);
-    endTime.setHours(17, 0, 0, 0); // 5 PM end
+    // Default to all-day event, shown as 9 AM to 5 PM
+    const day = expression?.date ?? options.defaultDate ?? dateParser.today(options);
 
     return {
-      start: baseDateTime.toISOString(),
-      end: endTime.toISOString(),
+      start: dateParser.toDate(day, { hour: 9, minute: 0 }, options).toISOString(),
+      end: dateParser.toDate(day, { hour: 17, minute: 0 }, options).toISOString(),
       isAllDay: true
     };
   }
 
-  private extractLocation(line: string): string | undefined {
-    const locationPatterns = [
-      /at\s+([^,\n]+)/i,
-      /in\s+([^,\n]+)/i,
-      /location:\s*([^,\n]+)/i
-    ];
-
-    for (const pattern of locationPatterns) {
-      const match = pattern.exec(line);
-      if (match) {
-        return match[1].trim();
-      }
-    }
-
-    return undefined;
-  }
-
   private determineEventType(line: string): 'meeting' | 'appointment' | 'task' | 'reminder' | 'personal' {
     const lowerLine = line.toLowerCase();
     
@@ -401,17 +473,17 @@ class ContentCategorizer {
   }
 
   private isRecurring(line: string): boolean {
-    const recurringKeywords = ['daily', 'weekly', 'monthly', 'every', 'recurring', 'repeat'];
     const lowerLine = line.toLowerCase();
-    return recurringKeywords.some(keyword => lowerLine.includes(keyword));
+    return Object.values(this.pack.recurrenceKeywords).flat().some(keyword => lowerLine.includes(keyword));
   }
 
   private extractRecurrencePattern(line: string): string | undefined {
     const lowerLine = line.toLowerCase();
+    const { daily, weekly, monthly } = this.pack.recurrenceKeywords;
     
-    if (lowerLine.includes('daily') || lowerLine.includes('every day')) return 'daily';
-    if (lowerLine.includes('weekly') || lowerLine.includes('every week')) return 'weekly';
-    if (lowerLine.includes('monthly') || lowerLine.includes('every month')) return 'monthly';
+    if (daily.some(keyword => lowerLine.includes(keyword))) return 'daily';
+    if (weekly.some(keyword => lowerLine.includes(keyword))) return 'weekly';
+    if (monthly.some(keyword => lowerLine.includes(keyword))) return 'monthly';
     
     return undefined;
   }
@@ -465,10 +537,9 @@ class ContentCategorizer {
   }
 
   private cleanTitle(line: string): string {
-    // Remove common prefixes and clean up the title
-    let title = line
-      .replace(/^(todo|task|reminder|achievement|note):\s*/i, '')
-      .replace(/^(complete|finish|do|need to)\s+/i, '')
+    // Remove common prefixes and clean up the title, which comes from the first line of an item
+    let title = this.pack.titlePrefixes
+      .reduce((current, prefix) => current.replace(prefix, ''), line.split('\n')[0])
       .trim();
     
     // Capitalize first letter
@@ -479,10 +550,9 @@ class ContentCategorizer {
     return title || 'Untitled';
   }
 
-  private getDefaultReminderTime(): string {
-    const tomorrow = addDays(new Date(), 1);
-    tomorrow.setHours(9, 0, 0, 0); // 9 AM tomorrow
-    return tomorrow.toISOString();
+  private getDefaultReminderTime(options: DateParserOptions): string {
+    const tomorrow = addCalendarDays(dateParser.today(options), 1);
+    return dateParser.toDate(tomorrow, { hour: 9, minute: 0 }, options).toISOString(); // 9 AM tomorrow
   }
 }
 
@@ -0,0 +1,161 @@
+import { dateParser, DateParserOptions } from './dateParser';
+
+export type ClassLabel = 'todo' | 'event' | 'reminder' | 'achievement' | 'uncategorized';
+
+export const classLabels: ClassLabel[] = ['todo', 'event', 'reminder', 'achievement', 'uncategorized'];
+
+// Token counts learned from user corrections; seed counts are rebuilt from keywords on startup
+export interface ClassifierModel {
+  version: number;
+  documents: Partial<Record<ClassLabel, number>>;
+  tokens: Partial<Record<ClassLabel, Record<string, number>>>;
+  updatedAt?: string;
+}
+
+export interface Classification {
+  label: ClassLabel;
+  scores: Record<ClassLabel, number>;
+  features: string[];
+}
+
+const MODEL_VERSION = 1;
+
+// How many pseudo-documents each seed keyword counts as, relative to one user correction
+const SEED_WEIGHT = 1;
+const CORRECTION_WEIGHT = 3;
+
+export const emptyModel = (): ClassifierModel => ({ version: MODEL_VERSION, documents: {}, tokens: {} });
+
+// Unigrams and bigrams on word boundaries, so "do" no longer matches "doctor"
+export const tokenize = (text: string): string[] => {
+  const words = text
+    .toLowerCase()
+    .replace(/[’‘]/g, '\'')
+    .split(/[^\p{L}\p{N}']+/u)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(word => word.length > 0);
+
+  const bigrams = words.slice(1).map((word, index) => `${words[index]} ${word}`);
+  return [...words, ...bigrams];
+};
+
+// Structural features that are not words, such as the presence of a time expression
+export const extractFeatures = (text: string, options: DateParserOptions = {}): string[] => {
+  const features = tokenize(text);
+  const expression = dateParser.parse(text, options);
+
+  if (expression) {
+    features.push(expression.isAllDay ? '__date' : '__time');
+  }
+
+  return features;
+};
+
+export class NaiveBayesClassifier {
+  private seed: ClassifierModel = emptyModel();
+  private learned: ClassifierModel = emptyModel();
+
+  constructor(seedExamples: Partial<Record<ClassLabel, string[]>>) {
+    for (const [label, examples] of Object.entries(seedExamples) as [ClassLabel, string[]][]) {
+      for (const example of examples) {
+        // Seeds may already be feature names such as "__time"; phrases only count as the whole phrase
+        const tokens = example.startsWith('__') ? [example] : tokenize(example);
+        const features = example.includes(' ') ? tokens.filter(token => token.includes(' ')) : tokens;
+        this.addDocument(this.seed, label, features, SEED_WEIGHT);
+      }
+    }
+  }
+
+  classify(text: string, options: DateParserOptions = {}): Classification {
+    const features = extractFeatures(text, options);
+    const vocabulary = this.vocabulary();
+    const known = features.filter(feature => vocabulary.has(feature));
+
+    const logScores = {} as Record<ClassLabel, number>;
+    const candidates = classLabels.filter(label => this.documentCount(label) > 0);
+    const learnedDocuments = candidates.reduce((sum, label) => sum + (this.learned.documents[label] ?? 0), 0);
+
+    for (const label of candidates) {
+      const tokenTotal = this.tokenTotal(label);
+      // Priors come from corrections only, so longer seed keyword lists do not bias a category
+      let score = Math.log(((this.learned.documents[label] ?? 0) + 1) / (learnedDocuments + candidates.length));
+
+      for (const feature of known) {
+        score += Math.log((this.tokenCount(label, feature) + 1) / (tokenTotal + vocabulary.size));
+      }
+
+      logScores[label] = score;
+    }
+
+    const scores = this.normalize(logScores);
+
+    // Without a single known feature there is no evidence for any category
+    if (known.length === 0) {
+      return { label: 'uncategorized', scores, features };
+    }
+
+    const label = candidates.reduce((best, candidate) => (scores[candidate] > scores[best] ? candidate : best), candidates[0]);
+    return { label, scores, features };
+  }
+
+  learn(text: string, label: ClassLabel, options: DateParserOptions = {}): void {
+    this.addDocument(this.learned, label, extractFeatures(text, options), CORRECTION_WEIGHT);
+    this.learned.updatedAt = new Date().toISOString();
+  }
+
+  load(model?: ClassifierModel | null): void {
+    this.learned = model && model.version === MODEL_VERSION ? model : emptyModel();
+  }
+
+  export(): ClassifierModel {
+    return this.learned;
+  }
+
+  private addDocument(model: ClassifierModel, label: ClassLabel, features: string[], weight: number): void {
+    model.documents[label] = (model.documents[label] ?? 0) + weight;
+    const counts = model.tokens[label] ?? (model.tokens[label] = {});
+
+    for (const feature of features) {
+      counts[feature] = (counts[feature] ?? 0) + weight;
+    }
+  }
+
+  private vocabulary(): Set<string> {
+    const vocabulary = new Set<string>();
+    for (const model of [this.seed, this.learned]) {
+      for (const counts of Object.values(model.tokens)) {
+        Object.keys(counts ?? {}).forEach(feature => vocabulary.add(feature));
+      }
+    }
+    return vocabulary;
+  }
+
+  private documentCount(label: ClassLabel): number {
+    return (this.seed.documents[label] ?? 0) + (this.learned.documents[label] ?? 0);
+  }
+
+  private tokenCount(label: ClassLabel, feature: string): number {
+    return (this.seed.tokens[label]?.[feature] ?? 0) + (this.learned.tokens[label]?.[feature] ?? 0);
+  }
+
+  private tokenTotal(label: ClassLabel): number {
+    const sum = (counts?: Record<string, number>) => Object.values(counts ?? {}).reduce((total, count) => total + count, 0);
+    return sum(this.seed.tokens[label]) + sum(this.learned.tokens[label]);
+  }
+
+  // Softmax over log scores, with zero for labels that have never been seen
+  private normalize(logScores: Record<ClassLabel, number>): Record<ClassLabel, number> {
+    const scores = { todo: 0, event: 0, reminder: 0, achievement: 0, uncategorized: 0 };
+    const entries = Object.entries(logScores) as [ClassLabel, number][];
+    if (entries.length === 0) return scores;
+
+    const max = Math.max(...entries.map(([, score]) => score));
+    const total = entries.reduce((sum, [, score]) => sum + Math.exp(score - max), 0);
+
+    for (const [label, score] of entries) {
+      scores[label] = Math.exp(score - max) / total;
+    }
+
+    return scores;
+  }
+}
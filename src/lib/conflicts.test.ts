@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { conflictResolver, FieldChoice } from './conflicts';
+import type { SyncTable } from './storage';
+
+interface Case {
+  name: string;
+  table?: SyncTable;
+  // The edit, the edited fields as they were when it began, and the server's row now (null once deleted)
+  patch: Record<string, unknown>;
+  base: Record<string, unknown>;
+  remote: Record<string, unknown> | null;
+  // What is still written, and the fields left for the user
+  merged: Record<string, unknown>;
+  conflicts?: string[];
+  deleted?: boolean;
+}
+
+const row = (fields: Record<string, unknown>) => ({
+  id: 'todo-1',
+  user_id: 'user-1',
+  updated_at: '2025-10-22T16:05:00.000Z',
+  title: 'Buy milk',
+  status: 'pending',
+  priority: 'medium',
+  ...fields
+});
+
+const check = ({ table = 'todos', patch, base, remote, merged, conflicts = [], deleted }: Case) => {
+  const resolution = conflictResolver.resolve(table, patch, base, remote);
+  expect(resolution.patch).toEqual(merged);
+  expect(resolution.conflicts.map(conflict => conflict.field)).toEqual(conflicts);
+  expect(resolution.deleted).toBe(deleted);
+};
+
+const table = (name: string, cases: Case[]) => {
+  describe(name, () => {
+    it.each(cases)('$name', check);
+  });
+};
+
+table('fields changed on one side', [
+  {
+    name: 'changed only here is written',
+    patch: { title: 'Buy oat milk' },
+    base: { title: 'Buy milk' },
+    remote: row({}),
+    merged: { title: 'Buy oat milk' }
+  },
+  {
+    name: 'changed only there is left as the other device set it',
+    patch: { title: 'Buy milk', priority: 'high' },
+    base: { title: 'Buy milk', priority: 'medium' },
+    remote: row({ title: 'Buy milk and eggs' }),
+    merged: { priority: 'high' }
+  },
+  {
+    name: 'a field the base never had counts as changed here',
+    patch: { description: 'From the corner shop' },
+    base: {},
+    remote: row({ title: 'Buy milk and eggs' }),
+    merged: { description: 'From the corner shop' }
+  },
+  {
+    name: 'server columns are never written',
+    patch: { updated_at: '2025-10-22T16:00:00.000Z', user_id: 'user-2', title: 'Buy oat milk' },
+    base: { updated_at: '2025-10-22T15:00:00.000Z', user_id: 'user-1', title: 'Buy milk' },
+    remote: row({}),
+    merged: { title: 'Buy oat milk' }
+  },
+  {
+    name: 'a date written shorter than the server returns it is unchanged',
+    table: 'events',
+    patch: { start_time: '2025-10-24T14:00:00Z', title: 'Standup' },
+    base: { start_time: '2025-10-24T14:00:00.000Z', title: 'Stand-up' },
+    remote: { id: 'event-1', start_time: '2025-10-24T15:00:00+00:00', title: 'Stand-up' },
+    merged: { title: 'Standup' }
+  }
+]);
+
+table('fields changed on both sides', [
+  {
+    name: 'the same value on both is already saved',
+    patch: { title: 'Buy oat milk' },
+    base: { title: 'Buy milk' },
+    remote: row({ title: 'Buy oat milk' }),
+    merged: {}
+  },
+  {
+    name: 'different values without a policy are left to the user',
+    patch: { title: 'Buy oat milk', priority: 'high' },
+    base: { title: 'Buy milk', priority: 'medium' },
+    remote: row({ title: 'Buy milk and eggs' }),
+    merged: { priority: 'high' },
+    conflicts: ['title']
+  },
+  {
+    name: 'completing a todo here wins over an edit there',
+    patch: { status: 'completed' },
+    base: { status: 'pending' },
+    remote: row({ status: 'in_progress' }),
+    merged: { status: 'completed' }
+  },
+  {
+    name: 'a todo completed there stays completed',
+    patch: { status: 'in_progress' },
+    base: { status: 'pending' },
+    remote: row({ status: 'completed' }),
+    merged: {}
+  },
+  {
+    name: 'a reminder completed there stays completed',
+    table: 'reminders',
+    patch: { status: 'snoozed' },
+    base: { status: 'active' },
+    remote: { id: 'reminder-1', status: 'completed' },
+    merged: {}
+  },
+  {
+    name: 'an achievement unlocked here stays unlocked',
+    table: 'achievements',
+    patch: { is_unlocked: true },
+    base: { is_unlocked: false },
+    remote: { id: 'achievement-1', is_unlocked: null },
+    merged: { is_unlocked: true }
+  },
+  {
+    name: 'the larger achievement progress wins',
+    table: 'achievements',
+    patch: { progress: 40, title: '10k steps' },
+    base: { progress: 20, title: '10k steps' },
+    remote: { id: 'achievement-1', progress: 60, title: '10k steps' },
+    merged: {}
+  },
+  {
+    name: 'event fields have no policy',
+    table: 'events',
+    patch: { location: 'Room 4' },
+    base: { location: 'Room 2' },
+    remote: { id: 'event-1', location: 'Room 3' },
+    merged: {},
+    conflicts: ['location']
+  }
+]);
+
+table('rows deleted there', [
+  {
+    name: 'an edit to a deleted row is dropped',
+    patch: { title: 'Buy oat milk' },
+    base: { title: 'Buy milk' },
+    remote: null,
+    merged: {},
+    deleted: true
+  }
+]);
+
+describe('apply', () => {
+  const resolution = conflictResolver.resolve(
+    'todos',
+    { title: 'Buy oat milk', priority: 'high', description: 'Corner shop' },
+    { title: 'Buy milk', priority: 'medium', description: 'Supermarket' },
+    row({ title: 'Buy milk and eggs', priority: 'low', description: 'Supermarket' })
+  );
+
+  it.each<[string, Record<string, FieldChoice>, Record<string, unknown>]>([
+    ['keeps the other device’s values by default', {}, { description: 'Corner shop' }],
+    ['writes the fields the user kept from here', { title: 'local', priority: 'remote' }, { description: 'Corner shop', title: 'Buy oat milk' }]
+  ])('%s', (_name, choices, patch) => {
+    expect(conflictResolver.apply(resolution, choices)).toEqual(patch);
+  });
+});
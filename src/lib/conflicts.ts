@@ -0,0 +1,105 @@
+import type { SyncTable } from './storage';
+
+export type FieldChoice = 'local' | 'remote';
+
+// Decides an overlapping change on its own, or leaves it to the user by returning undefined
+type FieldPolicy = (local: unknown, remote: unknown) => FieldChoice | undefined;
+
+// A field both this device and another one changed, to different values, since the edit began
+export interface FieldConflict {
+  field: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface Resolution {
+  // What still has to be written over the server's row
+  patch: Record<string, unknown>;
+  conflicts: FieldConflict[];
+  // The row is gone from the server; the edit is dropped rather than bringing it back
+  deleted?: boolean;
+}
+
+export interface RecordConflict extends Resolution {
+  // The server's row when the conflict was found; resolving rebases the edit onto it
+  remote: Record<string, unknown>;
+}
+
+// Columns the server maintains, never part of a merge
+const serverFields = new Set(['id', 'user_id', 'created_at', 'updated_at']);
+
+// Finishing something is never undone by an older edit made elsewhere
+const valueWins = (value: unknown): FieldPolicy => (local, remote) => {
+  if (local === value) return 'local';
+  if (remote === value) return 'remote';
+  return undefined;
+};
+
+const largerWins: FieldPolicy = (local, remote) => (
+  typeof local === 'number' && typeof remote === 'number' ? (local >= remote ? 'local' : 'remote') : undefined
+);
+
+export const conflictPolicies: Record<SyncTable, Record<string, FieldPolicy>> = {
+  todos: { status: valueWins('completed') },
+  events: {},
+  reminders: { status: valueWins('completed') },
+  achievements: { is_unlocked: valueWins(true), progress: largerWins }
+};
+
+// Dates come back from the server as full ISO strings but are often edited as shorter ones
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (JSON.stringify(a ?? null) === JSON.stringify(b ?? null)) return true;
+  if (typeof a !== 'string' || typeof b !== 'string' || !/^\d{4}-\d{2}-\d{2}T/.test(a) || !/^\d{4}-\d{2}-\d{2}T/.test(b)) return false;
+  return new Date(a).getTime() === new Date(b).getTime();
+};
+
+class ConflictResolver {
+  // Three-way merge per field of a local edit against the server's current row: fields only this device
+  // changed are kept, fields only the other device changed are left alone, and fields both changed go
+  // through the table's policy or become conflicts. A null remote is a row deleted on the other device
+  resolve(
+    table: SyncTable,
+    patch: Record<string, unknown>,
+    base: Record<string, unknown>,
+    remote: Record<string, unknown> | null
+  ): Resolution {
+    if (!remote) return { patch: {}, conflicts: [], deleted: true };
+
+    const merged: Record<string, unknown> = {};
+    const conflicts: FieldConflict[] = [];
+
+    for (const [field, local] of Object.entries(patch)) {
+      if (serverFields.has(field)) continue;
+
+      const changedHere = !(field in base) || !sameValue(local, base[field]);
+      const changedThere = field in base && !sameValue(remote[field], base[field]);
+      if (!changedHere || sameValue(local, remote[field])) continue;
+
+      if (!changedThere) {
+        merged[field] = local;
+        continue;
+      }
+
+      const choice = conflictPolicies[table][field]?.(local, remote[field]);
+      if (choice === 'local') {
+        merged[field] = local;
+      } else if (choice === undefined) {
+        conflicts.push({ field, base: base[field], local, remote: remote[field] });
+      }
+    }
+
+    return { patch: merged, conflicts };
+  }
+
+  // The edit to write once the user picked a side for each conflicting field
+  apply(resolution: Resolution, choices: Record<string, FieldChoice>): Record<string, unknown> {
+    const patch = { ...resolution.patch };
+    for (const conflict of resolution.conflicts) {
+      if (choices[conflict.field] === 'local') patch[conflict.field] = conflict.local;
+    }
+    return patch;
+  }
+}
+
+export const conflictResolver = new ConflictResolver();
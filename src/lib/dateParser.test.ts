@@ -0,0 +1,251 @@
+import { describe, expect, it } from 'vitest';
+import { dateParser, localePattern, CalendarDate, DateLocale, DateParserOptions } from './dateParser';
+
+// Wednesday Oct 22 2025, noon in New York (EDT, UTC-4 until Nov 2)
+const reference = new Date('2025-10-22T16:00:00Z');
+const newYork: DateParserOptions = { referenceDate: reference, timeZone: 'America/New_York' };
+
+interface Case {
+  text: string;
+  // Calendar day in the parser's zone; null when nothing should be found
+  date: string | null;
+  // Instants as ISO strings; a case without a start is expected to be all-day
+  start?: string;
+  end?: string;
+  matched?: string;
+  options?: DateParserOptions;
+}
+
+const formatDay = (date: CalendarDate): string =>
+  `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+
+const check = ({ text, date, start, end, matched, options }: Case) => {
+  const result = dateParser.parse(text, { ...newYork, ...options });
+  if (date === null) {
+    expect(result).toBeNull();
+    return;
+  }
+
+  expect(result).not.toBeNull();
+  expect(formatDay(result!.date)).toBe(date);
+  expect(result!.isAllDay).toBe(start === undefined);
+  if (start) expect(result!.start.toISOString()).toBe(start);
+  expect(result!.end?.toISOString()).toBe(end);
+  if (matched) expect(result!.text).toBe(matched);
+};
+
+const table = (name: string, cases: Case[]) => {
+  describe(name, () => {
+    it.each(cases)('$text', check);
+  });
+};
+
+table('ISO dates', [
+  { text: 'Submit report 2025-10-30', date: '2025-10-30', matched: '2025-10-30' },
+  { text: '2026-1-5', date: '2026-01-05' },
+  { text: '2025-02-30', date: null }
+]);
+
+table('numeric dates with a year', [
+  { text: 'Due 10/24/2025', date: '2025-10-24' },
+  { text: '10-24-25', date: '2025-10-24' },
+  { text: '24.10.2025', date: '2025-10-24' },
+  { text: '03/04/2026', date: '2026-04-03', options: { dateOrder: 'DMY' } },
+  { text: '03/04/2026', date: '2026-03-04' },
+  { text: '13/24/2025', date: null }
+]);
+
+table('numeric dates without a year', [
+  { text: 'Pay rent 10/24', date: '2025-10-24' },
+  { text: '10/22', date: '2025-10-22' },
+  // Already past this year
+  { text: '10/21', date: '2026-10-21' },
+  { text: '24/10', date: '2025-10-24', options: { dateOrder: 'DMY' } },
+  { text: '2/30', date: null }
+]);
+
+table('month name then day', [
+  { text: 'Oct 24', date: '2025-10-24' },
+  { text: 'October 24th, 2026', date: '2026-10-24' },
+  { text: 'Sept. 3', date: '2026-09-03' },
+  { text: 'Jan 5', date: '2026-01-05' },
+  // The written date wins over the weekday in front of it
+  { text: 'Thu, Oct 24', date: '2025-10-24', matched: 'Thu, Oct 24' },
+  { text: 'Feb 29, 2025', date: null }
+]);
+
+table('day then month name', [
+  { text: '24 Oct', date: '2025-10-24' },
+  { text: '22nd of October 2026', date: '2026-10-22' },
+  { text: 'Wednesday 29 October', date: '2025-10-29', matched: 'Wednesday 29 October' }
+]);
+
+table('day of the month', [
+  { text: 'on the 25th', date: '2025-10-25' },
+  { text: 'the 22nd', date: '2025-10-22' },
+  { text: 'the 31st', date: '2025-10-31' },
+  // Already past this month
+  { text: 'on the 14th', date: '2025-11-14' }
+]);
+
+table('relative days', [
+  { text: 'today', date: '2025-10-22' },
+  { text: 'Call mom tomorrow', date: '2025-10-23' },
+  { text: 'tmrw', date: '2025-10-23' },
+  { text: 'day after tomorrow', date: '2025-10-24', matched: 'day after tomorrow' },
+  { text: 'yesterday', date: '2025-10-21' },
+  { text: 'by EOD', date: '2025-10-22' }
+]);
+
+table('amounts from today', [
+  { text: 'in 3 days', date: '2025-10-25' },
+  { text: 'within two weeks', date: '2025-11-05' },
+  { text: 'a month from now', date: '2025-11-22' },
+  { text: 'in one year', date: '2026-10-22' },
+  // Clamped to the end of a shorter month
+  { text: 'in a month', date: '2026-02-28', options: { referenceDate: new Date('2026-01-31T17:00:00Z') } }
+]);
+
+table('end of a period', [
+  { text: 'end of week', date: '2025-10-24' },
+  { text: 'EOW', date: '2025-10-24' },
+  { text: 'by the end of the month', date: '2025-10-31' },
+  { text: 'eom', date: '2025-10-31' },
+  { text: 'end of year', date: '2025-12-31' }
+]);
+
+table('this and next period', [
+  { text: 'next week', date: '2025-10-27' },
+  { text: 'this week', date: '2025-10-24' },
+  { text: 'next month', date: '2025-11-01' },
+  { text: 'this month', date: '2025-10-31' },
+  { text: 'next year', date: '2026-01-01' },
+  { text: 'this year', date: '2025-12-31' }
+]);
+
+table('weekdays', [
+  { text: 'Friday', date: '2025-10-24' },
+  { text: 'wednesday', date: '2025-10-22' },
+  { text: 'next Friday', date: '2025-10-31' },
+  { text: 'next Monday', date: '2025-10-27' },
+  { text: 'this Fri', date: '2025-10-24' },
+  { text: 'coming tues', date: '2025-10-28' },
+  { text: 'due thurs', date: '2025-10-23' },
+  { text: 'brunch on sat', date: '2025-10-25' },
+  { text: 'Sat 10am', date: '2025-10-25', start: '2025-10-25T14:00:00.000Z' },
+  { text: 'Mon. 9:30', date: '2025-10-27', start: '2025-10-27T13:30:00.000Z' },
+  { text: 'Call w/ Sam 3pm Fri', date: '2025-10-24', start: '2025-10-24T19:00:00.000Z' },
+  { text: 'Dinner 19:00, sun', date: '2025-10-26', start: '2025-10-26T23:00:00.000Z' }
+]);
+
+table('words that only look like weekdays', [
+  { text: 'I sat down with the team', date: null },
+  { text: 'Wear sun cream', date: null },
+  { text: 'Mon is back from holiday', date: null },
+  { text: 'We wed in spring', date: null },
+  { text: 'Pokemon cards', date: null }
+]);
+
+table('times of day', [
+  { text: '3pm', date: '2025-10-22', start: '2025-10-22T19:00:00.000Z' },
+  { text: '2:30 p.m.', date: '2025-10-22', start: '2025-10-22T18:30:00.000Z' },
+  { text: '9.15am', date: '2025-10-22', start: '2025-10-22T13:15:00.000Z' },
+  { text: '14:30', date: '2025-10-22', start: '2025-10-22T18:30:00.000Z' },
+  { text: 'noon', date: '2025-10-22', start: '2025-10-22T16:00:00.000Z' },
+  { text: 'midday', date: '2025-10-22', start: '2025-10-22T16:00:00.000Z' },
+  { text: 'midnight', date: '2025-10-22', start: '2025-10-23T03:59:00.000Z' },
+  { text: 'tomorrow morning', date: '2025-10-23', start: '2025-10-23T13:00:00.000Z' },
+  { text: 'this afternoon', date: '2025-10-22', start: '2025-10-22T18:00:00.000Z' },
+  { text: 'tonight', date: '2025-10-22', start: '2025-10-23T00:00:00.000Z' },
+  { text: '13pm', date: null },
+  {
+    text: 'Dentist tomorrow at 3pm please',
+    date: '2025-10-23',
+    start: '2025-10-23T19:00:00.000Z',
+    matched: 'tomorrow at 3pm'
+  }
+]);
+
+table('time ranges', [
+  { text: '2-3pm', date: '2025-10-22', start: '2025-10-22T18:00:00.000Z', end: '2025-10-22T19:00:00.000Z' },
+  { text: '2pm - 3:30pm', date: '2025-10-22', start: '2025-10-22T18:00:00.000Z', end: '2025-10-22T19:30:00.000Z' },
+  { text: '14:00–15:30', date: '2025-10-22', start: '2025-10-22T18:00:00.000Z', end: '2025-10-22T19:30:00.000Z' },
+  // The end's meridiem carries over unless that would put the start after the end
+  { text: 'from 11 to 1 pm', date: '2025-10-22', start: '2025-10-22T15:00:00.000Z', end: '2025-10-22T17:00:00.000Z' },
+  { text: 'Oct 24 9-11am', date: '2025-10-24', start: '2025-10-24T13:00:00.000Z', end: '2025-10-24T15:00:00.000Z' },
+  { text: 'between 9 and 5', date: null }
+]);
+
+table('ranges that cross midnight', [
+  { text: '10pm-2am', date: '2025-10-22', start: '2025-10-23T02:00:00.000Z', end: '2025-10-23T06:00:00.000Z' },
+  { text: '23:00–01:00', date: '2025-10-22', start: '2025-10-23T03:00:00.000Z', end: '2025-10-23T05:00:00.000Z' },
+  { text: 'Fri 10pm-2am', date: '2025-10-24', start: '2025-10-25T02:00:00.000Z', end: '2025-10-25T06:00:00.000Z' },
+  { text: 'Oct 31 8pm-12am', date: '2025-10-31', start: '2025-11-01T00:00:00.000Z', end: '2025-11-01T04:00:00.000Z' }
+]);
+
+table('relative times', [
+  { text: 'in 30 minutes', date: '2025-10-22', start: '2025-10-22T16:30:00.000Z' },
+  { text: 'in 2 hours', date: '2025-10-22', start: '2025-10-22T18:00:00.000Z' },
+  { text: 'within an hour', date: '2025-10-22', start: '2025-10-22T17:00:00.000Z' },
+  // 10pm in New York, already the next day in UTC
+  { text: 'in 10 hrs', date: '2025-10-22', start: '2025-10-23T02:00:00.000Z' }
+]);
+
+table('default date', [
+  { text: '3pm', date: '2025-11-03', start: '2025-11-03T20:00:00.000Z', options: { defaultDate: { year: 2025, month: 11, day: 3 } } },
+  { text: 'tomorrow 3pm', date: '2025-10-23', start: '2025-10-23T19:00:00.000Z', options: { defaultDate: { year: 2025, month: 11, day: 3 } } }
+]);
+
+// 10pm Wednesday in New York is already Thursday in UTC and Tokyo
+const lateEvening = new Date('2025-10-23T02:00:00Z');
+
+table('reference date and time zone', [
+  { text: 'today', date: '2025-10-22', options: { referenceDate: lateEvening } },
+  { text: 'today', date: '2025-10-23', options: { referenceDate: lateEvening, timeZone: 'UTC' } },
+  { text: 'tomorrow', date: '2025-10-23', options: { referenceDate: lateEvening } },
+  { text: 'tomorrow', date: '2025-10-24', options: { referenceDate: lateEvening, timeZone: 'Asia/Tokyo' } },
+  { text: 'Wednesday', date: '2025-10-22', options: { referenceDate: lateEvening } },
+  { text: 'Wednesday', date: '2025-10-29', options: { referenceDate: lateEvening, timeZone: 'Asia/Tokyo' } },
+  { text: '9am', date: '2025-10-23', start: '2025-10-23T00:00:00.000Z', options: { referenceDate: lateEvening, timeZone: 'Asia/Tokyo' } },
+  { text: 'Jan 2', date: '2026-01-02', options: { referenceDate: new Date('2025-12-31T17:00:00Z') } },
+  { text: 'Dec 30', date: '2026-12-30', options: { referenceDate: new Date('2025-12-31T17:00:00Z') } }
+]);
+
+describe('all-day starts', () => {
+  it('starts at midnight in the parser zone', () => {
+    expect(dateParser.parse('Oct 24', newYork)!.start.toISOString()).toBe('2025-10-24T04:00:00.000Z');
+    expect(dateParser.parse('Oct 24', { ...newYork, timeZone: 'Asia/Tokyo' })!.start.toISOString()).toBe('2025-10-23T15:00:00.000Z');
+  });
+});
+
+// New York leaves daylight saving time at 2am on Nov 2 2025 and enters it at 2am on Mar 8 2026;
+// Berlin leaves it at 3am on Oct 26 2025
+const autumn = new Date('2025-10-30T16:00:00Z');
+const spring = new Date('2026-03-05T17:00:00Z');
+
+table('daylight saving time', [
+  { text: 'Nov 1 9am', date: '2025-11-01', start: '2025-11-01T13:00:00.000Z', options: { referenceDate: autumn } },
+  { text: 'Nov 2 9am', date: '2025-11-02', start: '2025-11-02T14:00:00.000Z', options: { referenceDate: autumn } },
+  { text: 'Nov 1 10pm-2am', date: '2025-11-01', start: '2025-11-02T02:00:00.000Z', end: '2025-11-02T07:00:00.000Z', options: { referenceDate: autumn } },
+  { text: 'in 2 hours', date: '2025-11-02', start: '2025-11-02T07:30:00.000Z', options: { referenceDate: new Date('2025-11-02T05:30:00Z') } },
+  { text: 'Mar 7 9am', date: '2026-03-07', start: '2026-03-07T14:00:00.000Z', options: { referenceDate: spring } },
+  { text: 'Mar 8 9am', date: '2026-03-08', start: '2026-03-08T13:00:00.000Z', options: { referenceDate: spring } },
+  { text: 'Mar 7 11pm-3am', date: '2026-03-07', start: '2026-03-08T04:00:00.000Z', end: '2026-03-08T07:00:00.000Z', options: { referenceDate: spring } },
+  { text: 'Oct 25 9am', date: '2025-10-25', start: '2025-10-25T07:00:00.000Z', options: { timeZone: 'Europe/Berlin' } },
+  { text: 'Oct 26 9am', date: '2025-10-26', start: '2025-10-26T08:00:00.000Z', options: { timeZone: 'Europe/Berlin' } }
+]);
+
+describe('locale rules', () => {
+  const locale: DateLocale = {
+    dateRules: [{ pattern: localePattern('übermorgen'), resolve: (_m, context) => ({ ...context.today, day: context.today.day + 2 }) }],
+    timeRules: [{ pattern: localePattern('(\\d{1,2}) uhr'), resolve: m => ({ start: { hour: parseInt(m[1]), minute: 0 } }) }],
+    relativeTimeRules: []
+  };
+
+  it.each<Case>([
+    { text: 'übermorgen', date: '2025-10-24', options: { locale } },
+    { text: 'übermorgen 15 Uhr', date: '2025-10-24', start: '2025-10-24T19:00:00.000Z', options: { locale } },
+    // The built-in English rules still apply alongside the locale's
+    { text: 'tomorrow 15 Uhr', date: '2025-10-23', start: '2025-10-23T19:00:00.000Z', options: { locale } }
+  ])('$text', check);
+});
@@ -0,0 +1,521 @@
+export interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+export interface DateExpression {
+  start: Date;
+  end?: Date;
+  isAllDay: boolean;
+  date: CalendarDate;
+  text: string;
+  index: number;
+  length: number;
+}
+
+export interface DateParserOptions {
+  referenceDate?: Date;
+  timeZone?: string;
+  dateOrder?: 'MDY' | 'DMY';
+  locale?: DateLocale;
+  // Day for a time that names no date, such as the heading a note item sits under; today otherwise
+  defaultDate?: CalendarDate;
+}
+
+export interface ParserContext {
+  reference: Date;
+  timeZone: string;
+  dateOrder: 'MDY' | 'DMY';
+  today: CalendarDate;
+}
+
+interface Span<T> {
+  index: number;
+  length: number;
+  value: T;
+}
+
+export interface TimeRange {
+  start: TimeOfDay;
+  end?: TimeOfDay;
+}
+
+export interface ParserRule<T> {
+  pattern: RegExp;
+  resolve: (match: RegExpMatchArray, context: ParserContext) => T | null;
+}
+
+// Extra rules for a language, tried before the built-in English ones. Relative time rules resolve to minutes
+export interface DateLocale {
+  dateRules: ParserRule<CalendarDate>[];
+  timeRules: ParserRule<TimeRange>[];
+  relativeTimeRules: ParserRule<number>[];
+}
+
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const WEEKDAY = '(mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)';
+const WEEKDAY_NAME = '(monday|tuesday|wednesday|thursday|friday|saturday|sunday)';
+const WEEKDAY_ABBREVIATION = '(mon|tues?|wed|thu(?:rs?)?|fri|sat|sun)';
+// "sat", "sun" and "mon" are everyday words too; on their own they only count next to a time or after a date word
+const ABBREVIATION_BEFORE = '(?<=(?:\\b(?:next|this|coming|on|by|until|till|due)|\\d(?:\\s*[ap]\\.?m\\.?)?),?\\s+)';
+const ABBREVIATION_AFTER = '(?=\\.?,?\\s*\\d)';
+const NUMBER = '(\\d+|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)';
+const ORDINAL = '(?:st|nd|rd|th)';
+const MERIDIEM = '(a\\.?m\\.?|p\\.?m\\.?)(?![a-z])';
+// A weekday in front of a written-out date is part of it, so "Thu, Oct 24" is Oct 24 whatever day that falls on
+const LEADING_WEEKDAY = `(?:${WEEKDAY}\\.?,?\\s+)?`;
+
+const monthIndex = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const weekdayIndex = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const numberWords: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+
+// Days of the week are counted Monday-first so "next Friday" means Friday of next week
+const END_OF_WEEK = 5;
+
+const parseNumber = (value: string): number => numberWords[value.toLowerCase()] ?? parseInt(value, 10);
+
+const parseMonth = (value: string): number => monthIndex.indexOf(value.slice(0, 3).toLowerCase()) + 1;
+
+const parseYear = (value: string | undefined, fallback: number): number => {
+  if (!value) return fallback;
+  const year = parseInt(value, 10);
+  return value.length === 2 ? 2000 + year : year;
+};
+
+export const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const toUtcDay = (date: CalendarDate): number => Date.UTC(date.year, date.month - 1, date.day);
+
+const fromUtcDay = (time: number): CalendarDate => {
+  const date = new Date(time);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+export const isValidDate = (year: number, month: number, day: number): boolean =>
+  month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+
+const compareDates = (a: CalendarDate, b: CalendarDate): number => toUtcDay(a) - toUtcDay(b);
+
+export const addCalendarDays = (date: CalendarDate, days: number): CalendarDate =>
+  fromUtcDay(Date.UTC(date.year, date.month - 1, date.day + days));
+
+export const addCalendarMonths = (date: CalendarDate, months: number): CalendarDate => {
+  const total = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(total / 12);
+  const month = (total % 12) + 1;
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+};
+
+const dayOfWeek = (date: CalendarDate): number => new Date(toUtcDay(date)).getUTCDay();
+
+// Monday-first offset of a day, so Monday is 0 and Sunday is 6
+const mondayOffset = (weekday: number): number => (weekday + 6) % 7;
+
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour') % 24,
+    minute: get('minute'),
+    second: get('second')
+  };
+};
+
+const getZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Convert a wall-clock time in a zone to an instant, re-checking the offset across DST changes
+export const zonedTimeToDate = (date: CalendarDate, time: TimeOfDay, timeZone: string): Date => {
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute);
+  const offset = getZoneOffset(new Date(wallClock), timeZone);
+  const corrected = getZoneOffset(new Date(wallClock - offset), timeZone);
+  return new Date(wallClock - corrected);
+};
+
+// Word-bounded, unicode-aware pattern for locale rules, since \b does not treat letters like "ü" as word characters
+export const localePattern = (source: string): RegExp =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, 'u');
+
+export const defaultTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const to24Hour = (hour: number, meridiem?: string): number => {
+  if (!meridiem) return hour;
+  const isPM = meridiem.toLowerCase().startsWith('p');
+  if (hour === 12) return isPM ? 12 : 0;
+  return isPM ? hour + 12 : hour;
+};
+
+export const isValidTime = (time: TimeOfDay): boolean =>
+  time.hour >= 0 && time.hour <= 23 && time.minute >= 0 && time.minute <= 59;
+
+// Upcoming occurrence of a month/day, rolling into next year once the date has passed
+export const nextOccurrence = (month: number, day: number, context: ParserContext): CalendarDate | null => {
+  const { today } = context;
+  for (const year of [today.year, today.year + 1]) {
+    if (!isValidDate(year, month, day)) continue;
+    const candidate = { year, month, day };
+    if (compareDates(candidate, today) >= 0) return candidate;
+  }
+  return null;
+};
+
+export const endOfWeek = (date: CalendarDate): CalendarDate => {
+  const offset = mondayOffset(dayOfWeek(date));
+  const target = mondayOffset(END_OF_WEEK);
+  return offset <= target ? addCalendarDays(date, target - offset) : date;
+};
+
+// First day of the following Monday-start week
+export const startOfNextWeek = (date: CalendarDate): CalendarDate => addCalendarDays(date, 7 - mondayOffset(dayOfWeek(date)));
+
+// Weekday given Sunday-first (0-6): the upcoming one, or the one in next week for "next Friday"
+export const resolveWeekday = (target: number, context: ParserContext, inNextWeek = false): CalendarDate => {
+  const { today } = context;
+  if (inNextWeek) return addCalendarDays(startOfNextWeek(today), mondayOffset(target));
+  return addCalendarDays(today, (target - dayOfWeek(today) + 7) % 7);
+};
+
+const dateRules: ParserRule<CalendarDate>[] = [
+  {
+    // 2025-10-22
+    pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/,
+    resolve: (m) => {
+      const [year, month, day] = [parseInt(m[1]), parseInt(m[2]), parseInt(m[3])];
+      return isValidDate(year, month, day) ? { year, month, day } : null;
+    }
+  },
+  {
+    // 10/22/2025, 22.10.2025, 10-22-25
+    pattern: /\b(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})\b/,
+    resolve: (m, context) => {
+      const dayFirst = m[2] === '.' || context.dateOrder === 'DMY';
+      const month = parseInt(dayFirst ? m[3] : m[1]);
+      const day = parseInt(dayFirst ? m[1] : m[3]);
+      const year = parseYear(m[4], context.today.year);
+      return isValidDate(year, month, day) ? { year, month, day } : null;
+    }
+  },
+  {
+    // 10/22
+    pattern: /\b(\d{1,2})\/(\d{1,2})\b(?!\/)/,
+    resolve: (m, context) => {
+      const dayFirst = context.dateOrder === 'DMY';
+      return nextOccurrence(parseInt(dayFirst ? m[2] : m[1]), parseInt(dayFirst ? m[1] : m[2]), context);
+    }
+  },
+  {
+    // Oct 22, October 22nd 2025, Wed, Oct 22
+    pattern: new RegExp(`\\b${LEADING_WEEKDAY}${MONTH}\\s+(\\d{1,2})${ORDINAL}?(?:,?\\s+(\\d{4}))?\\b`),
+    resolve: (m, context) => {
+      const month = parseMonth(m[2]);
+      const day = parseInt(m[3]);
+      if (!m[4]) return nextOccurrence(month, day, context);
+      const year = parseInt(m[4]);
+      return isValidDate(year, month, day) ? { year, month, day } : null;
+    }
+  },
+  {
+    // 22 Oct, 22nd of October 2025, Wednesday 22 October
+    pattern: new RegExp(`\\b${LEADING_WEEKDAY}(\\d{1,2})${ORDINAL}?\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?\\b`),
+    resolve: (m, context) => {
+      const month = parseMonth(m[3]);
+      const day = parseInt(m[2]);
+      if (!m[4]) return nextOccurrence(month, day, context);
+      const year = parseInt(m[4]);
+      return isValidDate(year, month, day) ? { year, month, day } : null;
+    }
+  },
+  {
+    // on the 14th
+    pattern: new RegExp(`\\b(?:on\\s+)?the\\s+(\\d{1,2})${ORDINAL}\\b`),
+    resolve: (m, context) => {
+      const day = parseInt(m[1]);
+      const { today } = context;
+      for (let months = 0; months < 3; months++) {
+        const { year, month } = addCalendarMonths({ ...today, day: 1 }, months);
+        if (isValidDate(year, month, day) && compareDates({ year, month, day }, today) >= 0) {
+          return { year, month, day };
+        }
+      }
+      return null;
+    }
+  },
+  {
+    pattern: /\b(day after tomorrow|today|tomorrow|tmrw|yesterday|eod)\b/,
+    resolve: (m, context) => {
+      const word = m[1].toLowerCase();
+      if (word === 'day after tomorrow') return addCalendarDays(context.today, 2);
+      if (word === 'tomorrow' || word === 'tmrw') return addCalendarDays(context.today, 1);
+      if (word === 'yesterday') return addCalendarDays(context.today, -1);
+      return context.today;
+    }
+  },
+  {
+    // in 3 days, within two weeks, a month from now
+    pattern: new RegExp(`\\b(?:(?:in|within)\\s+${NUMBER}\\s+(day|week|month|year)s?|${NUMBER}\\s+(day|week|month|year)s?\\s+from\\s+now)\\b`),
+    resolve: (m, context) => {
+      const amount = parseNumber(m[1] ?? m[3]);
+      const unit = (m[2] ?? m[4]).toLowerCase();
+      if (unit === 'day') return addCalendarDays(context.today, amount);
+      if (unit === 'week') return addCalendarDays(context.today, amount * 7);
+      if (unit === 'month') return addCalendarMonths(context.today, amount);
+      return addCalendarMonths(context.today, amount * 12);
+    }
+  },
+  {
+    // end of week, end of the month, eow, eom
+    pattern: /\b(?:(?:the\s+)?end\s+of\s+(?:the\s+|this\s+)?(week|month|year)|(eow|eom))\b/,
+    resolve: (m, context) => {
+      const unit = (m[1] ?? m[2]).toLowerCase();
+      const { today } = context;
+      if (unit === 'week' || unit === 'eow') return endOfWeek(today);
+      if (unit === 'month' || unit === 'eom') {
+        return { ...today, day: daysInMonth(today.year, today.month) };
+      }
+      return { year: today.year, month: 12, day: 31 };
+    }
+  },
+  {
+    // next week, this month, next year
+    pattern: /\b(next|this)\s+(week|month|year)\b/,
+    resolve: (m, context) => {
+      const isNext = m[1].toLowerCase() === 'next';
+      const unit = m[2].toLowerCase();
+      const { today } = context;
+      if (unit === 'week') {
+        return isNext ? startOfNextWeek(today) : endOfWeek(today);
+      }
+      if (unit === 'month') {
+        return isNext
+          ? addCalendarMonths({ ...today, day: 1 }, 1)
+          : { ...today, day: daysInMonth(today.year, today.month) };
+      }
+      return isNext ? { year: today.year + 1, month: 1, day: 1 } : { year: today.year, month: 12, day: 31 };
+    }
+  },
+  {
+    // Friday, this Fri, next Tuesday, Sat 10am
+    pattern: new RegExp(
+      `\\b(?:(next|this|coming)\\s+)?(?:${WEEKDAY_NAME}|${ABBREVIATION_BEFORE}${WEEKDAY_ABBREVIATION}|${WEEKDAY_ABBREVIATION}${ABBREVIATION_AFTER})\\b`
+    ),
+    resolve: (m, context) => {
+      const weekday = m[2] ?? m[3] ?? m[4];
+      const target = weekdayIndex.indexOf(weekday.slice(0, 3).toLowerCase());
+      return resolveWeekday(target, context, m[1]?.toLowerCase() === 'next');
+    }
+  }
+];
+
+const timeRules: ParserRule<TimeRange>[] = [
+  {
+    // 2-3pm, 2pm - 3:30pm, 14:00–15:00, from 11 to 1 pm
+    pattern: new RegExp(`\\b(?:from\\s+|between\\s+)?(\\d{1,2})(?:[:.](\\d{2}))?\\s*(?:${MERIDIEM})?\\s*(?:-|–|—|to|until|till|and)\\s*(\\d{1,2})(?:[:.](\\d{2}))?\\s*(?:${MERIDIEM})?`),
+    resolve: (m) => {
+      const [, startHour, startMinute, startMeridiem, endHour, endMinute, endMeridiem] = m;
+      if (!startMeridiem && !endMeridiem && !(startMinute && endMinute)) return null;
+
+      const end = { hour: to24Hour(parseInt(endHour), endMeridiem), minute: parseInt(endMinute || '0') };
+      let start = { hour: to24Hour(parseInt(startHour), startMeridiem ?? endMeridiem), minute: parseInt(startMinute || '0') };
+
+      // "11-1pm" reads as 11am to 1pm
+      if (!startMeridiem && endMeridiem && start.hour * 60 + start.minute > end.hour * 60 + end.minute) {
+        start = { hour: to24Hour(parseInt(startHour), 'am'), minute: start.minute };
+      }
+
+      return isValidTime(start) && isValidTime(end) ? { start, end } : null;
+    }
+  },
+  {
+    // 2pm, 2:30 p.m.
+    pattern: new RegExp(`\\b(\\d{1,2})(?:[:.](\\d{2}))?\\s*${MERIDIEM}`),
+    resolve: (m) => {
+      const hour = parseInt(m[1]);
+      if (hour < 1 || hour > 12) return null;
+      const start = { hour: to24Hour(hour, m[3]), minute: parseInt(m[2] || '0') };
+      return isValidTime(start) ? { start } : null;
+    }
+  },
+  {
+    // 14:30
+    pattern: /\b([01]?\d|2[0-3]):([0-5]\d)\b/,
+    resolve: (m) => ({ start: { hour: parseInt(m[1]), minute: parseInt(m[2]) } })
+  },
+  {
+    pattern: /\b(noon|midday|midnight)\b/,
+    resolve: (m) => m[1].toLowerCase() === 'midnight'
+      ? { start: { hour: 23, minute: 59 } }
+      : { start: { hour: 12, minute: 0 } }
+  },
+  {
+    pattern: /\b(morning|afternoon|evening|tonight)\b/,
+    resolve: (m) => {
+      const hours: Record<string, number> = { morning: 9, afternoon: 14, evening: 18, tonight: 20 };
+      return { start: { hour: hours[m[1].toLowerCase()], minute: 0 } };
+    }
+  }
+];
+
+// "in 30 minutes", "in 2 hours" resolve to an instant rather than a calendar day
+const relativeTimeRules: ParserRule<number>[] = [
+  {
+    pattern: new RegExp(`\\b(?:in|within)\\s+${NUMBER}\\s+(minute|min|hour|hr)s?\\b`),
+    resolve: (m) => {
+      const amount = parseNumber(m[1]);
+      return m[2].toLowerCase().startsWith('h') ? amount * 60 : amount;
+    }
+  }
+];
+
+class DateExpressionParser {
+  parse(text: string, options: DateParserOptions = {}): DateExpression | null {
+    const context = this.createContext(options);
+    const { locale } = options;
+
+    const relative = this.findRelativeTime(text, context, [...(locale?.relativeTimeRules ?? []), ...relativeTimeRules]);
+    if (relative) return relative;
+
+    const date = this.findDate(text, context, [...(locale?.dateRules ?? []), ...dateRules]);
+    const time = this.findTime(date ? this.mask(text, date) : text, context, [...(locale?.timeRules ?? []), ...timeRules]);
+    if (!date && !time) return null;
+
+    const day = date?.value ?? options.defaultDate ?? context.today;
+    const spans = [date, time].filter((span): span is Span<CalendarDate> | Span<TimeRange> => span !== null);
+    const index = Math.min(...spans.map(span => span.index));
+    const length = Math.max(...spans.map(span => span.index + span.length)) - index;
+
+    const result = {
+      date: day,
+      text: text.slice(index, index + length),
+      index,
+      length
+    };
+
+    if (!time) {
+      return { ...result, start: zonedTimeToDate(day, { hour: 0, minute: 0 }, context.timeZone), isAllDay: true };
+    }
+
+    const start = zonedTimeToDate(day, time.value.start, context.timeZone);
+    let end: Date | undefined;
+    if (time.value.end) {
+      // Ranges that cross midnight end on the following day
+      const endsNextDay = time.value.end.hour * 60 + time.value.end.minute <= time.value.start.hour * 60 + time.value.start.minute;
+      end = zonedTimeToDate(endsNextDay ? addCalendarDays(day, 1) : day, time.value.end, context.timeZone);
+    }
+
+    return { ...result, start, end, isAllDay: false };
+  }
+
+  // Instant for a calendar day and wall-clock time in the configured zone
+  toDate(date: CalendarDate, time: TimeOfDay, options: DateParserOptions = {}): Date {
+    return zonedTimeToDate(date, time, options.timeZone ?? defaultTimeZone());
+  }
+
+  today(options: DateParserOptions = {}): CalendarDate {
+    return this.createContext(options).today;
+  }
+
+  private createContext(options: DateParserOptions): ParserContext {
+    const reference = options.referenceDate ?? new Date();
+    const timeZone = options.timeZone ?? defaultTimeZone();
+    const { year, month, day } = getZonedParts(reference, timeZone);
+
+    return {
+      reference,
+      timeZone,
+      dateOrder: options.dateOrder ?? 'MDY',
+      today: { year, month, day }
+    };
+  }
+
+  // Longest match wins, ties go to the earlier (more explicit) rule so "Friday, Oct 24" resolves to Oct 24
+  private findDate(text: string, context: ParserContext, rules: ParserRule<CalendarDate>[]): Span<CalendarDate> | null {
+    let best: Span<CalendarDate> | null = null;
+
+    for (const rule of rules) {
+      for (const match of this.matchAll(rule.pattern, text)) {
+        const value = rule.resolve(match, context);
+        if (!value) continue;
+        const length = match[0].length;
+        if (!best || length > best.length) {
+          best = { index: match.index!, length, value };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  // Time rules are ordered by specificity, so the first rule with a valid match wins
+  private findTime(text: string, context: ParserContext, rules: ParserRule<TimeRange>[]): Span<TimeRange> | null {
+    for (const rule of rules) {
+      for (const match of this.matchAll(rule.pattern, text)) {
+        const value = rule.resolve(match, context);
+        if (value) {
+          const trimmed = match[0].trimEnd();
+          return { index: match.index!, length: trimmed.length, value };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private findRelativeTime(text: string, context: ParserContext, rules: ParserRule<number>[]): DateExpression | null {
+    for (const rule of rules) {
+      for (const match of this.matchAll(rule.pattern, text)) {
+        const minutes = rule.resolve(match, context);
+        if (minutes === null) continue;
+
+        const start = new Date(context.reference.getTime() + minutes * 60000);
+        const { year, month, day } = getZonedParts(start, context.timeZone);
+
+        return {
+          start,
+          isAllDay: false,
+          date: { year, month, day },
+          text: match[0],
+          index: match.index!,
+          length: match[0].length
+        };
+      }
+    }
+
+    return null;
+  }
+
+  // A fresh global regex per call avoids the shared lastIndex state of reused global patterns
+  private matchAll(pattern: RegExp, text: string): RegExpMatchArray[] {
+    return Array.from(text.matchAll(new RegExp(pattern.source, pattern.unicode ? 'giu' : 'gi')));
+  }
+
+  private mask(text: string, span: Span<unknown>): string {
+    return text.slice(0, span.index) + ' '.repeat(span.length) + text.slice(span.index + span.length);
+  }
+}
+
+export const dateParser = new DateExpressionParser();
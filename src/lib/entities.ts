@@ -0,0 +1,132 @@
+import { dateParser, DateParserOptions } from './dateParser';
+import type { LanguagePack } from './languages';
+
+// Contact details and people named in an item, shown as chips that open, mail or dial them
+export interface ExtractedEntities {
+  // Names ("with Dr. Patel") and @mentions
+  people: string[];
+  links: string[];
+  emails: string[];
+  phones: string[];
+}
+
+export const emailPattern = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu;
+
+// Full URLs, www. hosts and bare domains such as zoom.us/j/123
+const linkPattern = /\b(?:https?:\/\/|www\.)[^\s<>"']+|\b(?:[a-z0-9-]+\.)+(?:com|org|net|io|dev|app|us|co|de|es|edu|gov|me|ly|gl)\b(?:\/[^\s<>"']*)?/giu;
+
+const phonePattern = /(?<![\p{L}\p{N}+])\+?\d[\d\s().-]{5,}\d(?![\p{L}\p{N}])/gu;
+
+// "10.22.2025" or "2024-10-14" look like phone numbers to the pattern above
+const numericDatePattern = /^\d{1,4}[./-]\d{1,2}[./-]\d{1,4}$/;
+
+const mentionPattern = /(?<![\p{L}\p{N}_.@])@([\p{L}\p{N}_](?:[\p{L}\p{N}_.]*[\p{L}\p{N}_])?)/gu;
+
+const NAME = "(?:(?:Dr|Mr|Mrs|Ms|Prof|Fr|Hr|Sr|Sra)\\.?\\s+)?\\p{Lu}[\\p{L}'’-]+(?:\\s+\\p{Lu}[\\p{L}'’-]+)?";
+
+// One or more capitalized names right after a person word: "with Sam, Priya and Dr. Patel"
+const nameListPattern = new RegExp(`^${NAME}(?:(?:\\s*,\\s*|\\s+(?:and|&|und|y)\\s+)${NAME})*`, 'u');
+
+const nameSeparator = /\s*,\s*|\s+(?:and|&|und|y)\s+/u;
+
+// "Room 4 with Sam" ends the place before the people
+const placeEndPattern = /\s+(?:with|for|to|about|and|mit|für|zum|zur|und|con|para|y)\s.*$/iu;
+
+// What a blanked-out date or time leaves at the end of a place: "the office on" from "the office on Friday"
+const trailingPrepositions = ['on', 'by', 'from', 'until', 'till', 'am', 'um', 'ab', 'bis', 'vom', 'a las', 'a la', 'desde', 'hasta'];
+
+// "Location: Room 4", "📍 Luca's"
+const labelledPlacePattern = /(?:^|\n)\s*(?:location|where|venue|ort|lugar|ubicación|ubicacion)\s*:\s*([^\n]+)|📍\s*([^\n]+)/iu;
+
+export const escapePattern = (value: string): string => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const trimTrailingPunctuation = (value: string): string => value.replace(/[.,;:!?)\]]+$/, '');
+
+// Same length, so indexes still line up, and nothing matches across it
+const blank = (match: string): string => '\n'.repeat(match.length);
+
+const unique = (values: string[]): string[] => Array.from(new Set(values));
+
+class EntityExtractor {
+  // Undefined when the text names nothing, so items without entities stay as they were
+  extract(text: string, pack: LanguagePack): ExtractedEntities | undefined {
+    const emails = unique(Array.from(text.matchAll(emailPattern), match => match[0]));
+    const withoutEmails = text.replace(emailPattern, ' ');
+
+    const links = unique(Array.from(withoutEmails.matchAll(linkPattern), match => trimTrailingPunctuation(match[0])));
+    const withoutLinks = withoutEmails.replace(linkPattern, ' ');
+
+    const phones = unique(
+      Array.from(withoutLinks.matchAll(phonePattern), match => match[0].trim())
+        .filter(phone => !numericDatePattern.test(phone))
+        .filter(phone => {
+          const digits = phone.replace(/\D/g, '').length;
+          return digits >= 7 && digits <= 15;
+        })
+    );
+
+    const mentions = Array.from(withoutLinks.matchAll(mentionPattern), match => `@${match[1]}`);
+    const people = unique([...this.names(withoutLinks, pack), ...mentions]);
+
+    if (people.length + links.length + emails.length + phones.length === 0) return undefined;
+    return { people, links, emails, phones };
+  }
+
+  // A place after "at"/"in" (or the language's words for them), never a time: "at 2 PM" is not a location
+  location(text: string, pack: LanguagePack, options: DateParserOptions = {}): string | undefined {
+    const labelled = labelledPlacePattern.exec(text);
+    if (labelled) return this.cleanPlace(labelled[1] ?? labelled[2], pack);
+
+    const masked = this.maskDates(text.replace(emailPattern, blank).replace(linkPattern, blank), options);
+    const words = pack.locationWords.map(escapePattern).join('|');
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${words})[ \\t]+([^,;\\n·|()]+)`, 'giu');
+
+    for (const match of masked.matchAll(pattern)) {
+      const place = this.cleanPlace(match[1], pack);
+      if (place) return place;
+    }
+
+    return undefined;
+  }
+
+  private names(text: string, pack: LanguagePack): string[] {
+    const words = pack.personWords.map(escapePattern).join('|');
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${words})\\s+`, 'giu');
+    const names: string[] = [];
+
+    for (const match of text.matchAll(pattern)) {
+      const list = nameListPattern.exec(text.slice(match.index! + match[0].length));
+      if (!list) continue;
+
+      // Capitalized weekdays and months ("with Friday off") are not people
+      names.push(...list[0].split(nameSeparator).filter(name => !dateParser.parse(name)));
+    }
+
+    return names;
+  }
+
+  // Dates and times are blanked out with newlines, which no place can run across
+  private maskDates(text: string, options: DateParserOptions): string {
+    let masked = text;
+    for (let pass = 0; pass < 4; pass++) {
+      const expression = dateParser.parse(masked, options);
+      if (!expression) break;
+      masked = masked.slice(0, expression.index) + blank(expression.text) + masked.slice(expression.index + expression.length);
+    }
+    return masked;
+  }
+
+  private cleanPlace(value: string, pack: LanguagePack): string | undefined {
+    // "the office at" from "at the office at 3pm", where only the time was blanked
+    const trailing = [...pack.locationWords, ...trailingPrepositions].map(escapePattern).join('|');
+    const trailingPattern = new RegExp(`(?:^|\\s+)(?:${trailing})$`, 'iu');
+
+    let place = trimTrailingPunctuation(value.replace(placeEndPattern, '').trim());
+    while (trailingPattern.test(place)) place = trimTrailingPunctuation(place.replace(trailingPattern, '').trim());
+
+    if (!/\p{L}/u.test(place) || pack.stopwords.includes(place.toLowerCase())) return undefined;
+    return place;
+  }
+}
+
+export const entityExtractor = new EntityExtractor();
@@ -0,0 +1,381 @@
+import { contentCategorizer, CategorizedContent, ExtractedCategory } from './categorizer';
+import { ClassLabel, classLabels } from './classifier';
+import type { DateParserOptions } from './dateParser';
+import {
+  ConfidenceBand,
+  ConfidenceThresholds,
+  defaultThresholds,
+  getConfidenceBand
+} from './thresholds';
+import { labelledLines } from './fixtures/labelledLines';
+
+export interface LabelledSample {
+  text: string;
+  category: ClassLabel;
+  ocrConfidence?: number;
+}
+
+export interface Prediction {
+  sample: LabelledSample;
+  predicted: ClassLabel;
+  confidence: number;
+}
+
+export interface CategoryMetrics {
+  support: number;
+  predicted: number;
+  truePositives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface BandMetrics {
+  count: number;
+  correct: number;
+  precision: number;
+}
+
+export interface EvaluationReport {
+  total: number;
+  accuracy: number;
+  categories: Record<ClassLabel, CategoryMetrics>;
+  bands: Record<ConfidenceBand, BandMetrics>;
+}
+
+export interface ThresholdSweepPoint {
+  threshold: number;
+  kept: number;
+  precision: number;
+  recall: number;
+}
+
+const extractedCategories: ExtractedCategory[] = ['todo', 'event', 'reminder', 'achievement'];
+
+const DEFAULT_OCR_CONFIDENCE = 90;
+
+const ratio = (numerator: number, denominator: number): number => (denominator === 0 ? 0 : numerator / denominator);
+
+// Per-label precision/recall over (expected, predicted) pairs
+export const computeCategoryMetrics = (
+  pairs: { expected: ClassLabel; predicted: ClassLabel }[]
+): Record<ClassLabel, CategoryMetrics> => {
+  const categories = {} as Record<ClassLabel, CategoryMetrics>;
+
+  for (const label of classLabels) {
+    const support = pairs.filter(pair => pair.expected === label).length;
+    const predicted = pairs.filter(pair => pair.predicted === label).length;
+    const truePositives = pairs.filter(pair => pair.predicted === label && pair.expected === label).length;
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+
+    categories[label] = {
+      support,
+      predicted,
+      truePositives,
+      precision,
+      recall,
+      f1: ratio(2 * precision * recall, precision + recall)
+    };
+  }
+
+  return categories;
+};
+
+// Run the categorizer on each sample without applying thresholds
+export const predictSamples = (samples: LabelledSample[], options: DateParserOptions = {}): Prediction[] =>
+  samples.map(sample => {
+    const confidence = sample.ocrConfidence ?? DEFAULT_OCR_CONFIDENCE;
+    const result = contentCategorizer.categorizeItem(
+      { text: sample.text, lines: [sample.text], confidence, lineIndexes: [0] },
+      options
+    );
+
+    if (!result || result.category === 'uncategorized') {
+      return { sample, predicted: 'uncategorized', confidence: 0 };
+    }
+
+    return { sample, predicted: result.category, confidence: result.item.confidence };
+  });
+
+// Precision and recall after thresholds are applied, where discarded items count as uncategorized
+export const evaluatePredictions = (
+  predictions: Prediction[],
+  thresholds: ConfidenceThresholds = defaultThresholds
+): EvaluationReport => {
+  const bands: Record<ConfidenceBand, BandMetrics> = {
+    auto_accept: { count: 0, correct: 0, precision: 0 },
+    review: { count: 0, correct: 0, precision: 0 },
+    discard: { count: 0, correct: 0, precision: 0 }
+  };
+
+  const banded = predictions.map(prediction => {
+    if (prediction.predicted === 'uncategorized') return { ...prediction, band: undefined };
+
+    const band = getConfidenceBand(prediction.confidence, thresholds[prediction.predicted]);
+    const correct = prediction.predicted === prediction.sample.category;
+    bands[band].count++;
+    if (correct) bands[band].correct++;
+
+    return {
+      ...prediction,
+      predicted: band === 'discard' ? 'uncategorized' as const : prediction.predicted,
+      band
+    };
+  });
+
+  for (const band of Object.values(bands)) {
+    band.precision = ratio(band.correct, band.count);
+  }
+
+  const categories = computeCategoryMetrics(banded.map(prediction => ({
+    expected: prediction.sample.category,
+    predicted: prediction.predicted
+  })));
+
+  const correct = banded.filter(prediction => prediction.predicted === prediction.sample.category).length;
+
+  return {
+    total: predictions.length,
+    accuracy: ratio(correct, predictions.length),
+    categories,
+    bands
+  };
+};
+
+export const evaluateCategorizer = (
+  samples: LabelledSample[] = labelledLines,
+  thresholds: ConfidenceThresholds = defaultThresholds,
+  options: DateParserOptions = {}
+): EvaluationReport => evaluatePredictions(predictSamples(samples, options), thresholds);
+
+// Precision and recall of one category if only items at or above each threshold were kept
+export const sweepThreshold = (
+  predictions: Prediction[],
+  category: ExtractedCategory,
+  steps: number[] = [30, 40, 50, 60, 70, 75, 80, 85, 90, 95]
+): ThresholdSweepPoint[] => {
+  const support = predictions.filter(prediction => prediction.sample.category === category).length;
+
+  return steps.map(threshold => {
+    const kept = predictions.filter(prediction => prediction.predicted === category && prediction.confidence >= threshold);
+    const truePositives = kept.filter(prediction => prediction.sample.category === category).length;
+
+    return {
+      threshold,
+      kept: kept.length,
+      precision: ratio(truePositives, kept.length),
+      recall: ratio(truePositives, support)
+    };
+  });
+};
+
+// Lowest thresholds above which precision stays at the target for each band, falling back to the defaults
+export const suggestThresholds = (
+  predictions: Prediction[],
+  targets: { autoAccept: number; review: number } = { autoAccept: 0.95, review: 0.6 }
+): ConfidenceThresholds => {
+  const suggested = { ...defaultThresholds };
+  const steps = Array.from({ length: 14 }, (_, index) => 30 + index * 5);
+
+  for (const category of extractedCategories) {
+    const sweep = sweepThreshold(predictions, category, steps).filter(point => point.kept > 0);
+    const lowest = (target: number) =>
+      sweep.find((_, index) => sweep.slice(index).every(higher => higher.precision >= target))?.threshold;
+
+    const autoAccept = lowest(targets.autoAccept) ?? defaultThresholds[category].autoAccept;
+    const review = Math.min(lowest(targets.review) ?? defaultThresholds[category].review, autoAccept);
+    suggested[category] = { autoAccept, review };
+  }
+
+  return suggested;
+};
+
+// An expected or extracted item reduced to what the corpus is scored on
+interface ScoredItem {
+  category: ClassLabel;
+  sourceText: string;
+  dates: Record<string, string>;
+  location?: string;
+}
+
+export interface ItemOutcome {
+  sourceText: string;
+  expected: ClassLabel;
+  predicted: ClassLabel;
+  categoryCorrect: boolean;
+  // null when neither side has a date or the category is already wrong
+  dateCorrect: boolean | null;
+  dateMismatches: { field: string; expected?: string; actual?: string }[];
+  // null unless the expected item names a place and the category is right
+  locationCorrect: boolean | null;
+  location?: { expected: string; actual?: string };
+}
+
+export interface CorpusCaseResult {
+  name: string;
+  outcomes: ItemOutcome[];
+}
+
+export interface CorpusReport {
+  cases: number;
+  items: number;
+  accuracy: number;
+  categories: Record<ClassLabel, CategoryMetrics>;
+  datedItems: number;
+  dateAccuracy: number;
+  locatedItems: number;
+  locationAccuracy: number;
+}
+
+export interface CorpusBaseline {
+  report: CorpusReport;
+  outcomes: Record<string, { categoryCorrect: boolean; dateCorrect: boolean | null; locationCorrect?: boolean | null }>;
+}
+
+export interface Regression {
+  key: string;
+  kind: 'category' | 'date' | 'location';
+  outcome: ItemOutcome;
+}
+
+const flattenContent = (content: CategorizedContent): ScoredItem[] => [
+  ...content.todos.map((todo): ScoredItem => ({
+    category: 'todo',
+    sourceText: todo.source_text,
+    dates: todo.due_date ? { due_date: todo.due_date } : {}
+  })),
+  ...content.events.map(event => ({
+    category: 'event' as const,
+    sourceText: event.source_text,
+    dates: { start_time: event.start_time, end_time: event.end_time },
+    location: event.location
+  })),
+  ...content.reminders.map(reminder => ({
+    category: 'reminder' as const,
+    sourceText: reminder.source_text,
+    dates: { remind_at: reminder.remind_at }
+  })),
+  ...content.achievements.map(achievement => ({
+    category: 'achievement' as const,
+    sourceText: achievement.source_text,
+    dates: {}
+  })),
+  ...content.uncategorized.map(text => ({ category: 'uncategorized' as const, sourceText: text, dates: {} }))
+];
+
+const normalizeSource = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Layout grouping may attach extra lines, so items also match on their first line
+const sameSource = (a: string, b: string) =>
+  normalizeSource(a) === normalizeSource(b) ||
+  normalizeSource(a.split('\n')[0]) === normalizeSource(b.split('\n')[0]);
+
+const compareDates = (expected: ScoredItem, actual: ScoredItem) => {
+  const fields = [...new Set([...Object.keys(expected.dates), ...Object.keys(actual.dates)])];
+
+  return fields
+    .filter(field => {
+      const expectedTime = expected.dates[field] ? new Date(expected.dates[field]).getTime() : undefined;
+      const actualTime = actual.dates[field] ? new Date(actual.dates[field]).getTime() : undefined;
+      return expectedTime !== actualTime;
+    })
+    .map(field => ({ field, expected: expected.dates[field], actual: actual.dates[field] }));
+};
+
+// Match extracted items to expected ones by source text; extra extracted items count as false positives
+export const scoreCorpusCase = (
+  name: string,
+  expected: CategorizedContent,
+  actual: CategorizedContent
+): CorpusCaseResult => {
+  const actualItems = flattenContent(actual);
+  const matched = new Set<number>();
+  const outcomes: ItemOutcome[] = [];
+
+  for (const expectedItem of flattenContent(expected)) {
+    const index = actualItems.findIndex((item, i) => !matched.has(i) && sameSource(item.sourceText, expectedItem.sourceText));
+    const actualItem = index >= 0 ? actualItems[index] : undefined;
+    if (index >= 0) matched.add(index);
+
+    const predicted = actualItem?.category ?? 'uncategorized';
+    const categoryCorrect = predicted === expectedItem.category;
+    const dateMismatches = categoryCorrect && actualItem ? compareDates(expectedItem, actualItem) : [];
+    const hasDates = Object.keys(expectedItem.dates).length > 0 || Object.keys(actualItem?.dates ?? {}).length > 0;
+    const locationScored = categoryCorrect && expectedItem.location !== undefined;
+    const locationCorrect = locationScored ? expectedItem.location === actualItem?.location : null;
+
+    outcomes.push({
+      sourceText: expectedItem.sourceText,
+      expected: expectedItem.category,
+      predicted,
+      categoryCorrect,
+      dateCorrect: categoryCorrect && hasDates ? dateMismatches.length === 0 : null,
+      dateMismatches,
+      locationCorrect,
+      location: locationCorrect === false ? { expected: expectedItem.location!, actual: actualItem?.location } : undefined
+    });
+  }
+
+  actualItems.forEach((item, index) => {
+    if (matched.has(index)) return;
+
+    outcomes.push({
+      sourceText: item.sourceText,
+      expected: 'uncategorized',
+      predicted: item.category,
+      categoryCorrect: item.category === 'uncategorized',
+      dateCorrect: null,
+      dateMismatches: [],
+      locationCorrect: null
+    });
+  });
+
+  return { name, outcomes };
+};
+
+export const summarizeCorpus = (results: CorpusCaseResult[]): CorpusReport => {
+  const outcomes = results.flatMap(result => result.outcomes);
+  const dated = outcomes.filter(outcome => outcome.dateCorrect !== null);
+  const located = outcomes.filter(outcome => outcome.locationCorrect !== null);
+
+  return {
+    cases: results.length,
+    items: outcomes.length,
+    accuracy: ratio(outcomes.filter(outcome => outcome.categoryCorrect).length, outcomes.length),
+    categories: computeCategoryMetrics(outcomes),
+    datedItems: dated.length,
+    dateAccuracy: ratio(dated.filter(outcome => outcome.dateCorrect).length, dated.length),
+    locatedItems: located.length,
+    locationAccuracy: ratio(located.filter(outcome => outcome.locationCorrect).length, located.length)
+  };
+};
+
+const outcomeKey = (caseName: string, outcome: ItemOutcome) => `${caseName}: ${normalizeSource(outcome.sourceText)}`;
+
+export const toCorpusBaseline = (results: CorpusCaseResult[]): CorpusBaseline => ({
+  report: summarizeCorpus(results),
+  outcomes: Object.fromEntries(
+    results.flatMap(result =>
+      result.outcomes.map(outcome => [
+        outcomeKey(result.name, outcome),
+        { categoryCorrect: outcome.categoryCorrect, dateCorrect: outcome.dateCorrect, locationCorrect: outcome.locationCorrect }
+      ])
+    )
+  )
+});
+
+// Items the baseline got right that are now wrong
+export const findRegressions = (baseline: CorpusBaseline, results: CorpusCaseResult[]): Regression[] =>
+  results.flatMap(result =>
+    result.outcomes.flatMap((outcome): Regression[] => {
+      const key = outcomeKey(result.name, outcome);
+      const previous = baseline.outcomes[key];
+      if (!previous) return [];
+
+      if (previous.categoryCorrect && !outcome.categoryCorrect) return [{ key, kind: 'category', outcome }];
+      if (previous.dateCorrect && outcome.dateCorrect === false) return [{ key, kind: 'date', outcome }];
+      if (previous.locationCorrect && outcome.locationCorrect === false) return [{ key, kind: 'location', outcome }];
+      return [];
+    })
+  );
@@ -0,0 +1,111 @@
+import { supabase, ExtractedData, MediaStorage } from './supabase';
+import type { OCRResult } from './ocr';
+import type { CategorizedContent } from './categorizer';
+
+// An earlier upload of the same bytes, with what was read from it and saved
+export interface PreviousExtraction {
+  hash: string;
+  extractedAt: string;
+  ocr: OCRResult;
+  saved: CategorizedContent;
+  // Where the stored copy is in the private screenshots bucket
+  storagePath?: string;
+}
+
+const emptyContent = (): CategorizedContent => ({
+  todos: [],
+  events: [],
+  reminders: [],
+  achievements: [],
+  uncategorized: []
+});
+
+class ExtractionCache {
+  async hash(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  // Earlier extraction per hash; a failed lookup just means everything is processed again
+  async findPrevious(userId: string, hashes: string[]): Promise<Map<string, PreviousExtraction>> {
+    const found = new Map<string, PreviousExtraction>();
+    if (hashes.length === 0) return found;
+
+    try {
+      const [extracted, media] = await Promise.all([
+        supabase
+          .from('extracted_data')
+          .select('raw_data, processed_data, confidence_score, source_storage_path, content_hash, created_at')
+          .eq('user_id', userId)
+          .eq('status', 'completed')
+          .in('content_hash', hashes)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('media_storage')
+          .select('storage_path, content_hash')
+          .eq('user_id', userId)
+          .in('content_hash', hashes)
+      ]);
+
+      if (extracted.error) throw extracted.error;
+      if (media.error) throw media.error;
+
+      const files = new Map(
+        (media.data as Pick<MediaStorage, 'storage_path' | 'content_hash'>[]).map(row => [row.content_hash, row])
+      );
+
+      // Rows are newest first: OCR comes from the latest one, saved items from all of them
+      for (const row of extracted.data as ExtractedData[]) {
+        if (!row.content_hash) continue;
+
+        const saved: CategorizedContent = { ...emptyContent(), ...row.processed_data };
+        const existing = found.get(row.content_hash);
+        if (existing) {
+          existing.saved = {
+            todos: [...existing.saved.todos, ...saved.todos],
+            events: [...existing.saved.events, ...saved.events],
+            reminders: [...existing.saved.reminders, ...saved.reminders],
+            achievements: [...existing.saved.achievements, ...saved.achievements],
+            uncategorized: existing.saved.uncategorized
+          };
+          continue;
+        }
+
+        const file = files.get(row.content_hash);
+        found.set(row.content_hash, {
+          hash: row.content_hash,
+          extractedAt: row.created_at,
+          ocr: this.toOCRResult(row),
+          saved,
+          storagePath: row.source_storage_path ?? file?.storage_path
+        });
+      }
+    } catch (error) {
+      console.error('Error looking up previous extractions:', error);
+    }
+
+    return found;
+  }
+
+  // raw_data holds text, blocks and metadata, plus pages for PDFs; lines were added later, so older rows fall back to plain text
+  private toOCRResult(row: ExtractedData): OCRResult {
+    const raw = row.raw_data ?? {};
+    return {
+      text: raw.text ?? '',
+      confidence: row.confidence_score,
+      blocks: raw.blocks ?? [],
+      lines: raw.lines ?? [],
+      pages: raw.pages,
+      metadata: {
+        language: 'eng',
+        processingTime: 0,
+        imageSize: { width: 0, height: 0 },
+        ...raw.metadata
+      }
+    };
+  }
+}
+
+export const extractionCache = new ExtractionCache();
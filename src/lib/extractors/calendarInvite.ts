@@ -0,0 +1,92 @@
+import type { ExtractionTemplate, TemplateContext } from '../templates';
+import { contentCategorizer, CategorizedContent } from '../categorizer';
+import { layoutAnalyzer } from '../layout';
+import { dateLine, emptyContent, groupLines, itemFromLines, medianLineHeight, mergeContent } from './shared';
+
+interface Invite {
+  title: number;
+  when: number;
+  location?: number;
+}
+
+// RSVP buttons and prompts around the invite: "Going? Yes No Maybe", "Accept · Decline", "Zusagen"
+const chromeWords = new Set([
+  'going', 'rsvp', 'yes', 'no', 'maybe', 'accept', 'decline', 'tentative', 'join', 'reply', 'add', 'to', 'calendar',
+  'zusagen', 'absagen', 'vielleicht', 'ja', 'nein', 'teilnehmen',
+  'asistirás', 'asistiras', 'sí', 'si', 'quizás', 'quizas', 'aceptar', 'rechazar'
+]);
+const strongChromeWords = new Set(['going', 'rsvp', 'maybe', 'accept', 'decline', 'tentative', 'zusagen', 'absagen', 'vielleicht', 'asistirás', 'asistiras', 'quizás', 'quizas', 'aceptar', 'rechazar']);
+
+const locationPrefix = /^(?:location|where|ort|wo|ubicación|ubicacion|lugar|dónde|donde)\s*:\s*|^📍\s*/i;
+
+// The when line is mostly a date with a time: "Wed, Oct 22 · 14:00–15:00"
+const WHEN_COVERAGE = 0.6;
+
+const isChrome = (text: string): boolean => {
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(word => word.length > 0);
+  return words.length > 0 && words.every(word => chromeWords.has(word)) && words.some(word => strongChromeWords.has(word));
+};
+
+// Title directly above a timed date line, and a location directly below it when there is one
+const findInvite = ({ ocr, options }: TemplateContext): Invite | null => {
+  const { lines } = ocr;
+  const median = medianLineHeight(lines);
+
+  for (let index = 1; index < lines.length; index++) {
+    const when = dateLine(lines[index].text, options, WHEN_COVERAGE);
+    if (!when || when.isAllDay) continue;
+
+    const title = lines[index - 1];
+    if (isChrome(title.text) || contentCategorizer.extractDate(title.text, options)) continue;
+    if (lines[index].bbox.y0 - title.bbox.y1 > median * 1.5) continue;
+
+    const next = lines[index + 1];
+    const hasLocation = next
+      && next.bbox.y0 - lines[index].bbox.y1 <= median
+      && !isChrome(next.text)
+      && !dateLine(next.text, options, WHEN_COVERAGE);
+
+    return { title: index - 1, when: index, location: hasLocation ? index + 1 : undefined };
+  }
+
+  return null;
+};
+
+export const calendarInvite: ExtractionTemplate = {
+  name: 'calendar_invite',
+  label: 'Calendar invite',
+
+  detect: (context) => {
+    const invite = findInvite(context);
+    if (!invite) return 0;
+
+    const hasChrome = context.ocr.lines.some(line => isChrome(line.text));
+    return 0.5 + (hasChrome ? 0.25 : 0) + (invite.location !== undefined ? 0.25 : 0);
+  },
+
+  // The invite becomes one event; other lines on the card are categorized as usual
+  extract: (context) => {
+    const { ocr, options } = context;
+    const invite = findInvite(context);
+    if (!invite) return contentCategorizer.categorizeItems(layoutAnalyzer.groupItems(ocr), options);
+
+    const result: CategorizedContent = emptyContent();
+    const indexes = [invite.title, invite.when, ...(invite.location !== undefined ? [invite.location] : [])];
+    const location = invite.location !== undefined ? ocr.lines[invite.location].text.replace(locationPrefix, '').trim() : undefined;
+    const item = itemFromLines(ocr, indexes, indexes.map(index => ocr.lines[index].text));
+    const categorized = contentCategorizer.categorizeItem({ ...item, category: 'event' }, options);
+    if (categorized?.category === 'event') result.events.push({ ...categorized.item, location: location || categorized.item.location });
+
+    const rest: number[] = [];
+    ocr.lines.forEach((line, index) => {
+      if (indexes.includes(index)) return;
+      if (isChrome(line.text)) {
+        result.uncategorized.push(line.text);
+      } else {
+        rest.push(index);
+      }
+    });
+
+    return mergeContent(result, contentCategorizer.categorizeItems(groupLines(ocr, rest), options));
+  }
+};
@@ -0,0 +1,96 @@
+import type { ExtractionTemplate, TemplateContext } from '../templates';
+import type { DateParserOptions } from '../dateParser';
+import type { OCRLine } from '../ocr';
+import { contentCategorizer, CategorizedContent } from '../categorizer';
+import { dateLine, emptyContent, groupLines, lineHeight, medianLineHeight, mergeContent } from './shared';
+
+type Role = 'timestamp' | 'name' | 'message';
+
+type Side = 'left' | 'right' | 'center';
+
+// "Sam", "Lucía Gómez": the sender shown above their messages
+const namePattern = /^\p{Lu}[\p{L}'’.-]*(?:\s+\p{Lu}[\p{L}'’.-]*)?$/u;
+
+// Timestamps and day separators are short lines that are nothing but a date or time: "9:41 PM", "Yesterday"
+const MAX_TIMESTAMP_LENGTH = 24;
+const TIMESTAMP_COVERAGE = 0.8;
+
+const sideOf = (line: OCRLine, left: number, right: number): Side => {
+  const span = right - left || 1;
+  const offset = line.bbox.x0 - left;
+  const center = (line.bbox.x0 + line.bbox.x1) / 2;
+
+  if (offset > span * 0.1 && Math.abs(center - (left + right) / 2) < span * 0.1) return 'center';
+  return offset > span * 0.3 ? 'right' : 'left';
+};
+
+const analyze = ({ ocr, options }: TemplateContext): { roles: Role[]; sides: Side[] } => {
+  const { lines } = ocr;
+  const left = Math.min(...lines.map(line => line.bbox.x0));
+  const right = Math.max(...lines.map(line => line.bbox.x1));
+  const median = medianLineHeight(lines);
+
+  const roles = lines.map((line, index): Role => {
+    const text = line.text.trim();
+    if (text.length <= MAX_TIMESTAMP_LENGTH && dateLine(text, options, TIMESTAMP_COVERAGE)) return 'timestamp';
+
+    // A name sits directly on top of a message starting at the same edge, in no larger a font
+    const next = lines[index + 1];
+    const isName = next
+      && namePattern.test(text)
+      && lineHeight(line) <= median
+      && Math.abs(next.bbox.x0 - line.bbox.x0) <= (right - left) * 0.1;
+    return isName ? 'name' : 'message';
+  });
+
+  return { roles, sides: lines.map(line => sideOf(line, left, right)) };
+};
+
+export const chat: ExtractionTemplate = {
+  name: 'chat',
+  label: 'Chat',
+
+  // Any two of: timestamps, sender names, and messages on both sides of the thread
+  detect: (context) => {
+    const { roles, sides } = analyze(context);
+    const messageSides = new Set(sides.filter((_, index) => roles[index] === 'message'));
+    const signals = [
+      roles.includes('timestamp'),
+      roles.includes('name'),
+      messageSides.has('left') && messageSides.has('right')
+    ];
+    return signals.filter(Boolean).length / signals.length;
+  },
+
+  // Names and timestamps are not items; a day separator dates the messages below it
+  extract: (context) => {
+    const { ocr } = context;
+    const { roles, sides } = analyze(context);
+    const result: CategorizedContent = emptyContent();
+    let options: DateParserOptions = context.options;
+    let bubble: number[] = [];
+
+    const flush = () => {
+      mergeContent(result, contentCategorizer.categorizeItems(groupLines(ocr, bubble), options));
+      bubble = [];
+    };
+
+    ocr.lines.forEach((line, index) => {
+      if (roles[index] === 'message') {
+        // Consecutive lines on one side may still be several messages; the layout analyzer splits those
+        if (bubble.length > 0 && sides[bubble[0]] !== sides[index]) flush();
+        bubble.push(index);
+        return;
+      }
+
+      flush();
+      result.uncategorized.push(line.text);
+
+      const timestamp = roles[index] === 'timestamp' ? contentCategorizer.extractDate(line.text, options) : null;
+      if (timestamp) options = { ...options, referenceDate: timestamp.start };
+    });
+    flush();
+
+    return result;
+  }
+};
@@ -0,0 +1,63 @@
+import type { ExtractionTemplate, TemplateContext } from '../templates';
+import type { DateParserOptions } from '../dateParser';
+import { contentCategorizer, CategorizedContent } from '../categorizer';
+import { emptyContent, groupLines, itemFromLines, mergeContent } from './shared';
+
+type Header = 'from' | 'to' | 'cc' | 'subject' | 'date';
+
+// Header labels in English, German and Spanish mail clients
+const headerLabels: Record<string, Header> = {
+  from: 'from', von: 'from', de: 'from',
+  to: 'to', an: 'to', para: 'to',
+  cc: 'cc', bcc: 'cc', kopie: 'cc',
+  subject: 'subject', betreff: 'subject', asunto: 'subject',
+  date: 'date', sent: 'date', datum: 'date', gesendet: 'date', fecha: 'date', enviado: 'date'
+};
+
+const headerPattern = /^\s*(\p{L}+)\s*:\s*(.*)$/u;
+
+const parseHeader = (text: string): { header: Header; value: string } | null => {
+  const match = headerPattern.exec(text);
+  const header = match ? headerLabels[match[1].toLowerCase()] : undefined;
+  return match && header ? { header, value: match[2].trim() } : null;
+};
+
+const headersOf = ({ ocr }: TemplateContext) => ocr.lines.map(line => parseHeader(line.text));
+
+export const email: ExtractionTemplate = {
+  name: 'email',
+  label: 'Email',
+
+  // Two or more different headers, one of them who it is from or what it is about
+  detect: (context) => {
+    const found = new Set(headersOf(context).flatMap(parsed => (parsed ? [parsed.header] : [])));
+    if (found.size < 2 || !(found.has('from') || found.has('subject'))) return 0;
+    return Math.min(1, found.size / 3);
+  },
+
+  // The subject and body are categorized; "tomorrow" in the body is relative to when the mail was sent
+  extract: (context) => {
+    const { ocr } = context;
+    const headers = headersOf(context);
+    const result: CategorizedContent = emptyContent();
+    let options: DateParserOptions = context.options;
+
+    const sent = headers.find(parsed => parsed?.header === 'date');
+    const sentAt = sent ? contentCategorizer.extractDate(sent.value, options) : null;
+    if (sentAt) options = { ...options, referenceDate: sentAt.start };
+
+    const body: number[] = [];
+    headers.forEach((parsed, index) => {
+      if (!parsed) {
+        body.push(index);
+      } else if (parsed.header === 'subject' && parsed.value.length > 0) {
+        const categorized = contentCategorizer.categorizeItems([itemFromLines(ocr, [index], [parsed.value])], options);
+        mergeContent(result, categorized);
+      } else {
+        result.uncategorized.push(ocr.lines[index].text);
+      }
+    });
+
+    return mergeContent(result, contentCategorizer.categorizeItems(groupLines(ocr, body), options));
+  }
+};
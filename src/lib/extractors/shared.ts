@@ -0,0 +1,61 @@
+import type { DateExpression, DateParserOptions } from '../dateParser';
+import type { OCRLine, OCRResult } from '../ocr';
+import { contentCategorizer, CategorizedContent } from '../categorizer';
+import { layoutAnalyzer, LayoutItem } from '../layout';
+
+export const emptyContent = (): CategorizedContent => ({
+  todos: [],
+  events: [],
+  reminders: [],
+  achievements: [],
+  uncategorized: []
+});
+
+export const mergeContent = (target: CategorizedContent, source: CategorizedContent): CategorizedContent => {
+  target.todos.push(...source.todos);
+  target.events.push(...source.events);
+  target.reminders.push(...source.reminders);
+  target.achievements.push(...source.achievements);
+  target.uncategorized.push(...source.uncategorized);
+  return target;
+};
+
+// The date or time a line names, when it makes up at least `coverage` of the line
+export const dateLine = (text: string, options: DateParserOptions, coverage: number): DateExpression | null => {
+  const expression = contentCategorizer.extractDate(text, options);
+  return expression && expression.length >= text.trim().length * coverage ? expression : null;
+};
+
+export const lineHeight = (line: OCRLine): number => line.bbox.y1 - line.bbox.y0;
+
+export const medianLineHeight = (lines: OCRLine[]): number => {
+  const heights = lines.map(lineHeight).sort((a, b) => a - b);
+  return heights[Math.floor(heights.length / 2)] || 1;
+};
+
+// Some of the OCR lines laid out as the generic path would, keeping their indexes into the whole result
+export const groupLines = (ocr: OCRResult, indexes: number[]): LayoutItem[] => {
+  if (indexes.length === 0) return [];
+
+  return layoutAnalyzer
+    .groupItems({ ...ocr, lines: indexes.map(index => ocr.lines[index]) })
+    .map(item => ({ ...item, lineIndexes: item.lineIndexes.map(index => indexes[index]) }));
+};
+
+// One item made of the given lines, whatever the layout analyzer would have done with them
+export const itemFromLines = (ocr: OCRResult, indexes: number[], texts: string[]): LayoutItem => {
+  const lines = indexes.map(index => ocr.lines[index]);
+
+  return {
+    text: texts.join('\n'),
+    lines: texts,
+    confidence: lines.reduce((sum, line) => sum + line.confidence, 0) / lines.length,
+    bbox: {
+      x0: Math.min(...lines.map(line => line.bbox.x0)),
+      y0: Math.min(...lines.map(line => line.bbox.y0)),
+      x1: Math.max(...lines.map(line => line.bbox.x1)),
+      y1: Math.max(...lines.map(line => line.bbox.y1))
+    },
+    lineIndexes: indexes
+  };
+};
@@ -0,0 +1,80 @@
+import type { LabelledSample } from '../evaluation';
+
+// Hand-labelled screenshot lines used to measure the categorizer and tune confidence thresholds
+export const labelledLines: LabelledSample[] = [
+  // Todos
+  { text: 'TODO: finish quarterly report', category: 'todo' },
+  { text: 'Need to buy groceries', category: 'todo' },
+  { text: 'Call the plumber about the leak', category: 'todo' },
+  { text: 'Fix login bug before release', category: 'todo' },
+  { text: 'Submit expense report by Friday', category: 'todo' },
+  { text: 'Must renew passport', category: 'todo' },
+  { text: 'Complete the onboarding checklist', category: 'todo' },
+  { text: 'Task: update the landing page copy', category: 'todo' },
+  { text: 'Should email Sarah the draft', category: 'todo' },
+  { text: 'Pick up dry cleaning', category: 'todo' },
+  { text: 'Review pull request #42', category: 'todo' },
+  { text: 'Clean the garage this weekend', category: 'todo' },
+  { text: 'Write unit tests for the parser', category: 'todo', ocrConfidence: 72 },
+  { text: 'Buy birthday gift for mom', category: 'todo', ocrConfidence: 68 },
+  { text: 'Do laundry', category: 'todo', ocrConfidence: 60 },
+
+  // Events
+  { text: 'Meeting with design team at 3pm', category: 'event' },
+  { text: 'Dentist appointment tomorrow 10:30am', category: 'event' },
+  { text: 'Team standup 9:00', category: 'event' },
+  { text: 'Conference call with client on Oct 24 at 2pm', category: 'event' },
+  { text: 'Lunch with Alex at noon', category: 'event' },
+  { text: 'Birthday party Saturday 7pm', category: 'event' },
+  { text: 'Webinar: Intro to TypeScript 11am-12pm', category: 'event' },
+  { text: 'Flight to Berlin on 2024-11-02 08:15', category: 'event' },
+  { text: 'Interview at 4:30pm', category: 'event' },
+  { text: 'Concert tonight at 8', category: 'event' },
+  { text: 'Yoga class every Monday 6pm', category: 'event' },
+  { text: 'Board meeting next Tuesday 10am', category: 'event' },
+  { text: 'Dinner reservation 7:30pm', category: 'event', ocrConfidence: 70 },
+  { text: 'Sprint planning session 1-2pm', category: 'event', ocrConfidence: 65 },
+  { text: 'Parent teacher conference Thursday', category: 'event', ocrConfidence: 58 },
+
+  // Reminders
+  { text: "Reminder: pay rent on the 1st", category: 'reminder' },
+  { text: "Don't forget to take medication", category: 'reminder' },
+  { text: 'Remember to water the plants', category: 'reminder' },
+  { text: 'Remind me to call mom tomorrow', category: 'reminder' },
+  { text: 'Note: the office is closed Monday', category: 'reminder' },
+  { text: 'Important: password expires in 3 days', category: 'reminder' },
+  { text: 'Alert: car insurance renewal due', category: 'reminder' },
+  { text: "Don't forget umbrella", category: 'reminder' },
+  { text: 'Remember the library books are due', category: 'reminder' },
+  { text: 'Reminder - dentist checkup next week', category: 'reminder' },
+  { text: 'Notice: parking permit expires soon', category: 'reminder' },
+  { text: 'Remember to back up the laptop', category: 'reminder', ocrConfidence: 66 },
+  { text: 'Reminder to stretch every hour', category: 'reminder', ocrConfidence: 62 },
+
+  // Achievements
+  { text: 'Completed the marathon!', category: 'achievement' },
+  { text: 'Finished reading 20 books this year', category: 'achievement' },
+  { text: 'Achieved a 30 day meditation streak', category: 'achievement' },
+  { text: 'Won first place in the hackathon', category: 'achievement' },
+  { text: 'Reached 10,000 steps today', category: 'achievement' },
+  { text: 'Accomplished all goals for Q3', category: 'achievement' },
+  { text: 'Earned AWS certification', category: 'achievement' },
+  { text: 'Milestone: 1,000 users signed up', category: 'achievement' },
+  { text: 'Successfully launched the new website', category: 'achievement' },
+  { text: 'Got promoted to senior engineer', category: 'achievement' },
+  { text: 'Success! Paid off the credit card', category: 'achievement' },
+  { text: 'Finished the 5k under 25 minutes', category: 'achievement', ocrConfidence: 70 },
+  { text: 'Completed the online course', category: 'achievement', ocrConfidence: 64 },
+
+  // Lines that should not become items
+  { text: 'Screenshot 2024-10-19 at 14.02.11', category: 'uncategorized' },
+  { text: 'Battery 87%', category: 'uncategorized' },
+  { text: 'Sent from my iPhone', category: 'uncategorized' },
+  { text: 'Page 3 of 12', category: 'uncategorized' },
+  { text: 'Share Edit Delete', category: 'uncategorized' },
+  { text: 'Hello everyone', category: 'uncategorized' },
+  { text: 'Lorem ipsum dolor sit amet', category: 'uncategorized' },
+  { text: 'www.example.com', category: 'uncategorized' },
+  { text: 'Wi-Fi LTE 9:41', category: 'uncategorized', ocrConfidence: 55 },
+  { text: 'Thanks!', category: 'uncategorized', ocrConfidence: 50 }
+];
@@ -0,0 +1,229 @@
+import type { SyncTable } from './storage';
+
+const DB_NAME = 'screensafe';
+
+export const KEY_VALUE_STORE = 'keyValue';
+
+export const entityStores: SyncTable[] = ['todos', 'events', 'reminders', 'achievements'];
+
+// The upgrade transaction is passed for migrations that rewrite existing rows
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// Schema version n is reached by running migrations[0..n-1] in order. Shipped entries are never
+// edited; a schema change is a new entry at the end
+const migrations: Migration[] = [
+  // 1: a key-value store for everything without its own store, and one store per entity with the
+  // fields the dashboard sorts and filters by indexed
+  db => {
+    db.createObjectStore(KEY_VALUE_STORE);
+
+    const todos = db.createObjectStore('todos', { keyPath: 'id' });
+    todos.createIndex('created_at', 'created_at');
+    todos.createIndex('due_date', 'due_date');
+    todos.createIndex('status', 'status');
+
+    const events = db.createObjectStore('events', { keyPath: 'id' });
+    events.createIndex('start_time', 'start_time');
+
+    const reminders = db.createObjectStore('reminders', { keyPath: 'id' });
+    reminders.createIndex('remind_at', 'remind_at');
+    reminders.createIndex('status', 'status');
+
+    const achievements = db.createObjectStore('achievements', { keyPath: 'id' });
+    achievements.createIndex('unlocked_at', 'unlocked_at');
+  },
+
+  // 2: the Supabase session moves here from localStorage, where the service worker could not read it
+  (_db, transaction) => {
+    try {
+      const keyValue = transaction.objectStore(KEY_VALUE_STORE);
+      for (const key of Object.keys(localStorage).filter(key => /^sb-.+-auth-token$/.test(key))) {
+        keyValue.put(localStorage.getItem(key), key);
+        localStorage.removeItem(key);
+      }
+    } catch {
+      // Storage blocked for this origin: there is no session to move, and signing in stores one here
+    }
+  }
+];
+
+// The order the dashboard fetches each table in, so cached rows read back the same way
+const entityOrder: Record<SyncTable, { field: string; ascending: boolean }> = {
+  todos: { field: 'created_at', ascending: false },
+  events: { field: 'start_time', ascending: true },
+  reminders: { field: 'remind_at', ascending: true },
+  achievements: { field: 'unlocked_at', ascending: false }
+};
+
+// Postgres sorts null as larger than any value, so rows without one come last ascending and first descending
+const compareField = (field: string, ascending: boolean) => (a: unknown, b: unknown): number => {
+  const left = (a as Record<string, unknown>)[field];
+  const right = (b as Record<string, unknown>)[field];
+  const leftMissing = left === null || left === undefined;
+  const rightMissing = right === null || right === undefined;
+  let order: number;
+  if (leftMissing || rightMissing) {
+    order = Number(leftMissing) - Number(rightMissing);
+  } else {
+    order = left < right ? -1 : left > right ? 1 : 0;
+  }
+  return ascending ? order : -order;
+};
+
+// Set in the key-value store once localStorage was moved over, in the same transaction as the move
+const IMPORTED_KEY = '__importedLocalStorage';
+
+// localStorage keys written before this database existed
+const isLegacyKey = (key: string): boolean => (
+  (entityStores as string[]).includes(key) || key === 'outbox' || key.startsWith('preferences_')
+);
+
+// Snapshots from before changes were queued per row; nothing reads them any more
+const isObsoleteKey = (key: string): boolean => key === 'syncQueue' || key.startsWith('todo_');
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+class IndexedDatabase {
+  private connection: Promise<IDBDatabase> | null = null;
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  open(): Promise<IDBDatabase> {
+    if (!this.connection) {
+      this.connection = this.connect().catch(error => {
+        this.connection = null;
+        throw error;
+      });
+    }
+    return this.connection;
+  }
+
+  async get<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+    const db = await this.open();
+    return request(db.transaction(store).objectStore(store).get(key));
+  }
+
+  // Read from the store rather than through an index, since an index skips rows whose field is null
+  async getAllInOrder<T>(store: SyncTable): Promise<T[]> {
+    const db = await this.open();
+    const { field, ascending } = entityOrder[store];
+    const records = await request<T[]>(db.transaction(store).objectStore(store).getAll());
+    return records.sort(compareField(field, ascending));
+  }
+
+  // Rows of an entity store through one of its indexes, e.g. todos due before a date
+  async getAllByIndex<T>(store: SyncTable, index: string, query?: IDBKeyRange | IDBValidKey): Promise<T[]> {
+    const db = await this.open();
+    return request(db.transaction(store).objectStore(store).index(index).getAll(query));
+  }
+
+  async keys(store: string): Promise<IDBValidKey[]> {
+    const db = await this.open();
+    return request(db.transaction(store).objectStore(store).getAllKeys());
+  }
+
+  async put(store: string, value: unknown, key?: IDBValidKey): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(store, 'readwrite');
+    transaction.objectStore(store).put(value, key);
+    await completion(transaction);
+  }
+
+  // An entity store's rows swapped for a new set in one transaction, so readers never see half of each
+  async replaceAll(store: SyncTable, records: unknown[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    objectStore.clear();
+    records.forEach(record => objectStore.put(record));
+    await completion(transaction);
+  }
+
+  async delete(store: string, key: IDBValidKey): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(store, 'readwrite');
+    transaction.objectStore(store).delete(key);
+    await completion(transaction);
+  }
+
+  // Empties this app's stores only; other data on the origin is left alone
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const stores = Array.from(db.objectStoreNames);
+    const transaction = db.transaction(stores, 'readwrite');
+    stores.forEach(store => transaction.objectStore(store).clear());
+    await completion(transaction);
+  }
+
+  private async connect(): Promise<IDBDatabase> {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, migrations.length);
+      req.onupgradeneeded = event => {
+        for (let version = event.oldVersion; version < migrations.length; version++) {
+          migrations[version](req.result, req.transaction!);
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      // Another tab still has the old version open; it closes on versionchange below
+      req.onblocked = () => console.warn('Waiting for other tabs to close the old database version');
+    });
+
+    // A newer version opened in another tab needs this connection gone before it can upgrade
+    db.onversionchange = () => {
+      db.close();
+      this.connection = null;
+    };
+
+    const imported = await request(db.transaction(KEY_VALUE_STORE).objectStore(KEY_VALUE_STORE).get(IMPORTED_KEY));
+    if (!imported) await this.importLocalStorage(db);
+    return db;
+  }
+
+  // Runs once per browser: what used to live in localStorage moves here
+  private async importLocalStorage(db: IDBDatabase): Promise<void> {
+    let keys: string[] = [];
+    try {
+      keys = Object.keys(localStorage);
+    } catch {
+      // Storage blocked for this origin: nothing to move
+    }
+
+    const transaction = db.transaction([KEY_VALUE_STORE, ...entityStores], 'readwrite');
+    for (const key of keys.filter(isLegacyKey)) {
+      const value = localStorage.getItem(key);
+      if (value === null) continue;
+
+      if ((entityStores as string[]).includes(key)) {
+        // A cache that no longer parses is dropped; the next fetch fills the store again
+        let records: unknown[] = [];
+        try {
+          records = JSON.parse(value);
+        } catch {
+          continue;
+        }
+        const store = transaction.objectStore(key);
+        records.forEach(record => store.put(record));
+      } else {
+        transaction.objectStore(KEY_VALUE_STORE).put(value, key);
+      }
+    }
+    transaction.objectStore(KEY_VALUE_STORE).put(true, IMPORTED_KEY);
+    await completion(transaction);
+
+    keys.filter(key => isLegacyKey(key) || isObsoleteKey(key)).forEach(key => localStorage.removeItem(key));
+  }
+}
+
+export const indexedDatabase = new IndexedDatabase();
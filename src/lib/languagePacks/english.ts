@@ -0,0 +1,50 @@
+import type { LanguagePack } from '../languages';
+
+// English uses the date parser's built-in rules, so it has no date locale of its own
+export const english: LanguagePack = {
+  code: 'eng',
+  label: 'English',
+  script: 'Latn',
+  letters: '',
+  dateOrder: 'MDY',
+  stopwords: [
+    'the', 'and', 'to', 'of', 'a', 'in', 'is', 'for', 'on', 'with', 'at', 'by', 'this', 'it',
+    'you', 'my', 'be', 'are', 'from', 'your', 'will', 'have', 'not', 'all', 'up'
+  ],
+  keywords: {
+    todo: [
+      'todo', 'task', 'complete', 'finish', 'do', 'need to', 'must', 'should',
+      'deadline', 'due', 'submit', 'deliver', 'work on', 'fix', 'update',
+      'buy', 'get', 'pick up', 'call', 'email', 'contact', 'schedule'
+    ],
+    event: [
+      'meeting', 'appointment', 'conference', 'call', 'session', 'interview',
+      'lunch', 'dinner', 'party', 'event', 'gathering', 'presentation',
+      'workshop', 'training', 'seminar', 'class', 'lesson'
+    ],
+    reminder: [
+      'reminder', 'remind', 'don\'t forget', 'remember', 'note', 'alert',
+      'notify', 'ping', 'follow up', 'check', 'review'
+    ],
+    achievement: [
+      'achievement', 'unlocked', 'completed', 'milestone', 'goal reached',
+      'success', 'accomplished', 'finished', 'badge', 'reward', 'level up',
+      'streak', 'progress', 'target met'
+    ]
+  },
+  priorityKeywords: {
+    urgent: ['urgent', 'asap', 'immediately', 'critical', 'emergency'],
+    high: ['important', 'priority', 'high', 'crucial', 'vital'],
+    medium: ['medium', 'normal', 'regular'],
+    low: ['low', 'minor', 'optional', 'when possible']
+  },
+  recurrenceKeywords: {
+    daily: ['daily', 'every day'],
+    weekly: ['weekly', 'every week'],
+    monthly: ['monthly', 'every month'],
+    other: ['every', 'recurring', 'repeat']
+  },
+  titlePrefixes: [/^(todo|task|reminder|achievement|note):\s*/i, /^(complete|finish|do|need to)\s+/i],
+  locationWords: ['at', 'in'],
+  personWords: ['with', 'w/', 'call', 'email', 'text', 'ask', 'ping', 'meet']
+};
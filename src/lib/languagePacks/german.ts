@@ -0,0 +1,215 @@
+import type { LanguagePack } from '../languages';
+import {
+  CalendarDate,
+  ParserRule,
+  TimeRange,
+  addCalendarDays,
+  addCalendarMonths,
+  daysInMonth,
+  endOfWeek,
+  isValidDate,
+  isValidTime,
+  localePattern,
+  nextOccurrence,
+  resolveWeekday,
+  startOfNextWeek
+} from '../dateParser';
+
+const MONTH = '(januar|jan|februar|feb|märz|maerz|mär|april|apr|mai|juni|jun|juli|jul|august|aug|september|sept|sep|oktober|okt|november|nov|dezember|dez)\\.?';
+const WEEKDAY = '(sonntag|montag|dienstag|mittwoch|donnerstag|freitag|samstag|sonnabend)';
+const NUMBER = '(\\d+|eine[mnr]?|ein|zwei|drei|vier|fünf|sechs|sieben|acht|neun|zehn|elf|zwölf)';
+const NEXT = '(nächste[nmrs]?|naechste[nmrs]?|kommende[nmrs]?|diese[nmrs]?)';
+
+const monthIndex = ['jan', 'feb', 'mär', 'apr', 'mai', 'jun', 'jul', 'aug', 'sep', 'okt', 'nov', 'dez'];
+const weekdayIndex = ['sonntag', 'montag', 'dienstag', 'mittwoch', 'donnerstag', 'freitag', 'samstag'];
+const numberWords: Record<string, number> = {
+  ein: 1, eine: 1, einem: 1, einen: 1, einer: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6,
+  sieben: 7, acht: 8, neun: 9, zehn: 10, elf: 11, zwölf: 12
+};
+
+const parseNumber = (value: string): number => numberWords[value.toLowerCase()] ?? parseInt(value, 10);
+
+const parseMonth = (value: string): number =>
+  monthIndex.indexOf(value.toLowerCase().replace('ae', 'ä').slice(0, 3)) + 1;
+
+const parseWeekday = (value: string): number => {
+  const name = value.toLowerCase();
+  return name === 'sonnabend' ? 6 : weekdayIndex.indexOf(name);
+};
+
+const isNext = (value?: string): boolean => /^(?:nächst|naechst|kommend)/i.test(value ?? '');
+
+const time = (hour: string, minute?: string) => ({ hour: parseInt(hour), minute: parseInt(minute || '0') });
+
+const dateRules: ParserRule<CalendarDate>[] = [
+  {
+    // 22.10. without a year
+    pattern: /\b(\d{1,2})\.\s?(\d{1,2})\.(?!\d)/,
+    resolve: (m, context) => nextOccurrence(parseInt(m[2]), parseInt(m[1]), context)
+  },
+  {
+    // 22. Oktober, 3 Okt 2025
+    pattern: localePattern(`(\\d{1,2})\\.?\\s*${MONTH}(?:\\s+(\\d{4}))?`),
+    resolve: (m, context) => {
+      const month = parseMonth(m[2]);
+      const day = parseInt(m[1]);
+      if (!m[3]) return nextOccurrence(month, day, context);
+      const year = parseInt(m[3]);
+      return isValidDate(year, month, day) ? { year, month, day } : null;
+    }
+  },
+  {
+    // "Guten Morgen" is a greeting, not tomorrow
+    pattern: localePattern('(?<!guten\\s+)(übermorgen|uebermorgen|vorgestern|heute|morgen|gestern)'),
+    resolve: (m, context) => {
+      const offsets: Record<string, number> = { übermorgen: 2, uebermorgen: 2, vorgestern: -2, heute: 0, morgen: 1, gestern: -1 };
+      return addCalendarDays(context.today, offsets[m[1].toLowerCase()]);
+    }
+  },
+  {
+    // in 3 Tagen, in zwei Wochen, in einem Monat
+    pattern: localePattern(`in\\s+${NUMBER}\\s+(tag|tagen|woche|wochen|monat|monaten|jahr|jahren)`),
+    resolve: (m, context) => {
+      const amount = parseNumber(m[1]);
+      const unit = m[2].toLowerCase();
+      if (unit.startsWith('tag')) return addCalendarDays(context.today, amount);
+      if (unit.startsWith('woche')) return addCalendarDays(context.today, amount * 7);
+      if (unit.startsWith('monat')) return addCalendarMonths(context.today, amount);
+      return addCalendarMonths(context.today, amount * 12);
+    }
+  },
+  {
+    // Ende der Woche, Ende des Monats, Monatsende
+    pattern: localePattern('ende\\s+(?:der|des|dieser|dieses)\\s+(woche|monats?|jahr(?:es)?)|(monatsende|jahresende)'),
+    resolve: (m, context) => {
+      const unit = (m[1] ?? m[2]).toLowerCase();
+      const { today } = context;
+      if (unit === 'woche') return endOfWeek(today);
+      if (unit.startsWith('monat')) return { ...today, day: daysInMonth(today.year, today.month) };
+      return { year: today.year, month: 12, day: 31 };
+    }
+  },
+  {
+    // nächste Woche, diesen Monat, nächstes Jahr
+    pattern: localePattern(`${NEXT}\\s+(woche|monat|jahr)`),
+    resolve: (m, context) => {
+      const next = isNext(m[1]);
+      const unit = m[2].toLowerCase();
+      const { today } = context;
+      if (unit === 'woche') return next ? startOfNextWeek(today) : endOfWeek(today);
+      if (unit === 'monat') {
+        return next ? addCalendarMonths({ ...today, day: 1 }, 1) : { ...today, day: daysInMonth(today.year, today.month) };
+      }
+      return next ? { year: today.year + 1, month: 1, day: 1 } : { year: today.year, month: 12, day: 31 };
+    }
+  },
+  {
+    // Freitag, am Montag, nächsten Dienstag
+    pattern: localePattern(`(?:(?:${NEXT}|am)\\s+)?${WEEKDAY}`),
+    resolve: (m, context) => resolveWeekday(parseWeekday(m[2]), context, isNext(m[1]))
+  }
+];
+
+const timeRules: ParserRule<TimeRange>[] = [
+  {
+    // 14-15 Uhr, von 9:30 bis 11 Uhr
+    pattern: localePattern('(?:von\\s+)?(\\d{1,2})(?:[:.](\\d{2}))?\\s*(?:uhr\\s*)?(?:-|–|bis)\\s*(\\d{1,2})(?:[:.](\\d{2}))?\\s*uhr'),
+    resolve: (m) => {
+      const start = time(m[1], m[2]);
+      const end = time(m[3], m[4]);
+      return isValidTime(start) && isValidTime(end) ? { start, end } : null;
+    }
+  },
+  {
+    // 14 Uhr, 9.30 Uhr
+    pattern: localePattern('(?:um\\s+)?(\\d{1,2})(?:[:.](\\d{2}))?\\s*uhr'),
+    resolve: (m) => {
+      const start = time(m[1], m[2]);
+      return isValidTime(start) ? { start } : null;
+    }
+  },
+  {
+    // um 9, um 10:15
+    pattern: localePattern('um\\s+(\\d{1,2})(?:[:.](\\d{2}))?'),
+    resolve: (m) => {
+      const start = time(m[1], m[2]);
+      return isValidTime(start) ? { start } : null;
+    }
+  },
+  {
+    pattern: localePattern('(mittags?|mitternacht)'),
+    resolve: (m) => m[1].toLowerCase() === 'mitternacht'
+      ? { start: { hour: 23, minute: 59 } }
+      : { start: { hour: 12, minute: 0 } }
+  },
+  {
+    pattern: localePattern('(morgens|vormittags?|nachmittags?|abends?|nachts)'),
+    resolve: (m) => {
+      const word = m[1].toLowerCase();
+      if (word.startsWith('nachmittag')) return { start: { hour: 14, minute: 0 } };
+      if (word.startsWith('abend')) return { start: { hour: 18, minute: 0 } };
+      if (word === 'nachts') return { start: { hour: 20, minute: 0 } };
+      return { start: { hour: 9, minute: 0 } };
+    }
+  }
+];
+
+const relativeTimeRules: ParserRule<number>[] = [
+  {
+    // in 30 Minuten, in zwei Stunden
+    pattern: localePattern(`in\\s+${NUMBER}\\s+(minuten?|min|stunden?|std)`),
+    resolve: (m) => {
+      const amount = parseNumber(m[1]);
+      return m[2].toLowerCase().startsWith('st') ? amount * 60 : amount;
+    }
+  }
+];
+
+export const german: LanguagePack = {
+  code: 'deu',
+  label: 'Deutsch',
+  script: 'Latn',
+  letters: 'äöüßÄÖÜ',
+  dateOrder: 'DMY',
+  stopwords: [
+    'der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'mit', 'den', 'zu', 'im', 'für', 'auf', 'ein',
+    'eine', 'es', 'sich', 'von', 'dem', 'des', 'auch', 'wir', 'bitte', 'am', 'um', 'mir', 'noch'
+  ],
+  keywords: {
+    todo: [
+      'aufgabe', 'todo', 'erledigen', 'muss', 'müssen', 'sollte', 'abgeben', 'einreichen',
+      'frist', 'fällig', 'abschließen', 'fertigstellen', 'reparieren', 'aktualisieren',
+      'kaufen', 'besorgen', 'abholen', 'anrufen', 'mailen', 'schicken', 'planen'
+    ],
+    event: [
+      'besprechung', 'meeting', 'termin', 'konferenz', 'sitzung', 'vorstellungsgespräch',
+      'mittagessen', 'abendessen', 'party', 'feier', 'veranstaltung', 'treffen', 'präsentation',
+      'workshop', 'schulung', 'seminar', 'kurs', 'unterricht'
+    ],
+    reminder: [
+      'erinnerung', 'erinnern', 'erinnere', 'nicht vergessen', 'vergiss nicht', 'denk daran',
+      'notiz', 'hinweis', 'achtung', 'nachfassen', 'prüfen', 'überprüfen'
+    ],
+    achievement: [
+      'erfolg', 'erreicht', 'geschafft', 'abgeschlossen', 'meilenstein', 'ziel erreicht',
+      'erfolgreich', 'gewonnen', 'freigeschaltet', 'abzeichen', 'belohnung', 'serie',
+      'fortschritt', 'bestanden'
+    ]
+  },
+  priorityKeywords: {
+    urgent: ['dringend', 'sofort', 'kritisch', 'notfall', 'asap'],
+    high: ['wichtig', 'priorität', 'hoch'],
+    medium: ['mittel', 'normal'],
+    low: ['niedrig', 'optional', 'unwichtig']
+  },
+  recurrenceKeywords: {
+    daily: ['täglich', 'jeden tag'],
+    weekly: ['wöchentlich', 'jede woche'],
+    monthly: ['monatlich', 'jeden monat'],
+    other: ['jeden', 'jede', 'wiederholen']
+  },
+  titlePrefixes: [/^(aufgabe|todo|erinnerung|notiz|erfolg):\s*/i, /^(erledigen|abschließen)\s+/i],
+  locationWords: ['in', 'im', 'bei', 'beim'],
+  personWords: ['mit', 'an'],
+  dateLocale: { dateRules, timeRules, relativeTimeRules }
+};
@@ -0,0 +1,236 @@
+import type { LanguagePack } from '../languages';
+import {
+  CalendarDate,
+  ParserRule,
+  TimeRange,
+  addCalendarDays,
+  addCalendarMonths,
+  daysInMonth,
+  endOfWeek,
+  isValidDate,
+  isValidTime,
+  localePattern,
+  nextOccurrence,
+  resolveWeekday,
+  startOfNextWeek
+} from '../dateParser';
+
+const MONTH = '(enero|ene|febrero|feb|marzo|mar|abril|abr|mayo|may|junio|jun|julio|jul|agosto|ago|septiembre|setiembre|sept?|set|octubre|oct|noviembre|nov|diciembre|dic)\\.?';
+const WEEKDAY = '(domingo|lunes|martes|miércoles|miercoles|jueves|viernes|sábado|sabado)';
+const NUMBER = '(\\d+|un[oa]?|dos|tres|cuatro|cinco|seis|siete|ocho|nueve|diez|once|doce)';
+const NEXT = '(próxim[oa]|proxim[oa]|siguiente|est[ea])';
+const DAY_PART = '(mañana|tarde|noche|madrugada)';
+
+const monthIndex = ['ene', 'feb', 'mar', 'abr', 'may', 'jun', 'jul', 'ago', 'sep', 'oct', 'nov', 'dic'];
+const weekdayIndex = ['dom', 'lun', 'mar', 'mié', 'jue', 'vie', 'sáb'];
+const numberWords: Record<string, number> = {
+  un: 1, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6,
+  siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12
+};
+
+const parseNumber = (value: string): number => numberWords[value.toLowerCase()] ?? parseInt(value, 10);
+
+const parseMonth = (value: string): number => {
+  const name = value.toLowerCase().slice(0, 3);
+  return monthIndex.indexOf(name === 'set' ? 'sep' : name) + 1;
+};
+
+const parseWeekday = (value: string): number =>
+  weekdayIndex.indexOf(value.toLowerCase().replace('miercoles', 'miércoles').replace('sabado', 'sábado').slice(0, 3));
+
+const isNext = (value?: string): boolean => /^(?:próxim|proxim|siguiente|que\s+viene)/i.test(value ?? '');
+
+// "de la tarde" and "de la noche" move 1-11 into the afternoon, "de la mañana" keeps the morning hour
+const withDayPart = (hour: number, minute: number, dayPart?: string) => {
+  const part = dayPart?.toLowerCase();
+  if ((part === 'tarde' || part === 'noche') && hour < 12) return { hour: hour + 12, minute };
+  if ((part === 'mañana' || part === 'madrugada') && hour === 12) return { hour: 0, minute };
+  return { hour, minute };
+};
+
+const dateRules: ParserRule<CalendarDate>[] = [
+  {
+    // 22 de octubre, 3 oct de 2025
+    pattern: localePattern(`(\\d{1,2})\\s+(?:de\\s+)?${MONTH}(?:\\s+(?:de\\s+|del\\s+)?(\\d{4}))?`),
+    resolve: (m, context) => {
+      const month = parseMonth(m[2]);
+      const day = parseInt(m[1]);
+      if (!m[3]) return nextOccurrence(month, day, context);
+      const year = parseInt(m[3]);
+      return isValidDate(year, month, day) ? { year, month, day } : null;
+    }
+  },
+  {
+    // el día 14
+    pattern: localePattern('el\\s+día\\s+(\\d{1,2})'),
+    resolve: (m, context) => {
+      const day = parseInt(m[1]);
+      const { today } = context;
+      for (let months = day < today.day ? 1 : 0; months < 3; months++) {
+        const { year, month } = addCalendarMonths({ ...today, day: 1 }, months);
+        if (isValidDate(year, month, day)) return { year, month, day };
+      }
+      return null;
+    }
+  },
+  {
+    // "mañana" after "la" or "esta" is the morning, not tomorrow
+    pattern: localePattern('(?<!(?:la|esta)\\s+)(pasado\\s+mañana|anteayer|antier|hoy|mañana|ayer)'),
+    resolve: (m, context) => {
+      const word = m[1].toLowerCase().replace(/\s+/g, ' ');
+      const offsets: Record<string, number> = { 'pasado mañana': 2, anteayer: -2, antier: -2, hoy: 0, mañana: 1, ayer: -1 };
+      return addCalendarDays(context.today, offsets[word]);
+    }
+  },
+  {
+    // en 3 días, dentro de dos semanas
+    pattern: localePattern(`(?:en|dentro\\s+de)\\s+${NUMBER}\\s+(días?|dias?|semanas?|mes(?:es)?|años?)`),
+    resolve: (m, context) => {
+      const amount = parseNumber(m[1]);
+      const unit = m[2].toLowerCase();
+      if (unit.startsWith('d')) return addCalendarDays(context.today, amount);
+      if (unit.startsWith('s')) return addCalendarDays(context.today, amount * 7);
+      if (unit.startsWith('m')) return addCalendarMonths(context.today, amount);
+      return addCalendarMonths(context.today, amount * 12);
+    }
+  },
+  {
+    // fin de semana is the weekend, so the coming Saturday
+    pattern: localePattern('(?:este\\s+)?fin\\s+de\\s+semana'),
+    resolve: (_, context) => resolveWeekday(6, context)
+  },
+  {
+    // fin de mes, a finales del año, final de la semana
+    pattern: localePattern('(?:a\\s+)?fin(?:al)?(?:es)?\\s+de(?:l)?\\s+(?:la\\s+|este\\s+|esta\\s+)?(semana|mes|año)'),
+    resolve: (m, context) => {
+      const unit = m[1].toLowerCase();
+      const { today } = context;
+      if (unit === 'semana') return endOfWeek(today);
+      if (unit === 'mes') return { ...today, day: daysInMonth(today.year, today.month) };
+      return { year: today.year, month: 12, day: 31 };
+    }
+  },
+  {
+    // la próxima semana, este mes, el año que viene
+    pattern: localePattern(`(?:(?:la|el)\\s+)?(?:${NEXT}\\s+(semana|mes|año)|(semana|mes|año)\\s+(que\\s+viene|próxim[oa]|proxim[oa]))`),
+    resolve: (m, context) => {
+      const next = isNext(m[1] ?? m[4]);
+      const unit = (m[2] ?? m[3]).toLowerCase();
+      const { today } = context;
+      if (unit === 'semana') return next ? startOfNextWeek(today) : endOfWeek(today);
+      if (unit === 'mes') {
+        return next ? addCalendarMonths({ ...today, day: 1 }, 1) : { ...today, day: daysInMonth(today.year, today.month) };
+      }
+      return next ? { year: today.year + 1, month: 1, day: 1 } : { year: today.year, month: 12, day: 31 };
+    }
+  },
+  {
+    // el viernes, el próximo lunes, el martes que viene
+    pattern: localePattern(`(?:(?:el|este)\\s+)?(?:${NEXT}\\s+)?${WEEKDAY}(?:\\s+(que\\s+viene))?`),
+    resolve: (m, context) => resolveWeekday(parseWeekday(m[2]), context, isNext(m[1] ?? m[3]))
+  }
+];
+
+const timeRules: ParserRule<TimeRange>[] = [
+  {
+    // de 3 a 5 de la tarde, de 9:00 a 10:30
+    pattern: localePattern(`(?:de|entre)\\s+(?:las?\\s+)?(\\d{1,2})(?:[:.](\\d{2}))?\\s*(?:a|y|hasta)\\s+(?:las?\\s+)?(\\d{1,2})(?:[:.](\\d{2}))?(?:\\s*h)?(?:\\s+de\\s+la\\s+${DAY_PART})?`),
+    resolve: (m) => {
+      const [, startHour, startMinute, endHour, endMinute, dayPart] = m;
+      if (!dayPart && !(startMinute && endMinute)) return null;
+
+      const start = withDayPart(parseInt(startHour), parseInt(startMinute || '0'), dayPart);
+      const end = withDayPart(parseInt(endHour), parseInt(endMinute || '0'), dayPart);
+      return isValidTime(start) && isValidTime(end) ? { start, end } : null;
+    }
+  },
+  {
+    // a las 3 de la tarde, a la 1, a las 15:30 h
+    pattern: localePattern(`a\\s+las?\\s+(\\d{1,2})(?:[:.](\\d{2}))?(?:\\s*h(?:oras|rs)?)?(?:\\s+de\\s+la\\s+${DAY_PART})?`),
+    resolve: (m) => {
+      const start = withDayPart(parseInt(m[1]), parseInt(m[2] || '0'), m[3]);
+      return isValidTime(start) ? { start } : null;
+    }
+  },
+  {
+    // 9 de la mañana
+    pattern: localePattern(`(\\d{1,2})(?:[:.](\\d{2}))?\\s+de\\s+la\\s+${DAY_PART}`),
+    resolve: (m) => {
+      const start = withDayPart(parseInt(m[1]), parseInt(m[2] || '0'), m[3]);
+      return isValidTime(start) ? { start } : null;
+    }
+  },
+  {
+    pattern: localePattern('(mediodía|mediodia|medianoche)'),
+    resolve: (m) => m[1].toLowerCase() === 'medianoche'
+      ? { start: { hour: 23, minute: 59 } }
+      : { start: { hour: 12, minute: 0 } }
+  },
+  {
+    pattern: localePattern('(?:por\\s+la|esta)\\s+(mañana|tarde|noche)'),
+    resolve: (m) => {
+      const hours: Record<string, number> = { mañana: 9, tarde: 14, noche: 20 };
+      return { start: { hour: hours[m[1].toLowerCase()], minute: 0 } };
+    }
+  }
+];
+
+const relativeTimeRules: ParserRule<number>[] = [
+  {
+    // en 30 minutos, dentro de dos horas
+    pattern: localePattern(`(?:en|dentro\\s+de)\\s+${NUMBER}\\s+(minutos?|min|horas?)`),
+    resolve: (m) => {
+      const amount = parseNumber(m[1]);
+      return m[2].toLowerCase().startsWith('h') ? amount * 60 : amount;
+    }
+  }
+];
+
+export const spanish: LanguagePack = {
+  code: 'spa',
+  label: 'Español',
+  script: 'Latn',
+  letters: 'ñáéíóúü¿¡ÑÁÉÍÓÚÜ',
+  dateOrder: 'DMY',
+  stopwords: [
+    'el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'con', 'para', 'no',
+    'se', 'su', 'al', 'lo', 'del', 'como', 'más', 'pero', 'le', 'ya', 'este', 'esta', 'hoy'
+  ],
+  keywords: {
+    todo: [
+      'tarea', 'pendiente', 'hacer', 'completar', 'terminar', 'debo', 'tengo que', 'hay que',
+      'entregar', 'enviar', 'plazo', 'fecha límite', 'arreglar', 'actualizar',
+      'comprar', 'recoger', 'llamar', 'escribir', 'contactar', 'programar'
+    ],
+    event: [
+      'reunión', 'reunion', 'cita', 'conferencia', 'sesión', 'entrevista', 'almuerzo',
+      'comida', 'cena', 'fiesta', 'evento', 'presentación', 'taller', 'formación',
+      'seminario', 'clase', 'quedada'
+    ],
+    reminder: [
+      'recordatorio', 'recordar', 'recuerda', 'recuérdame', 'no olvidar', 'no olvides',
+      'nota', 'aviso', 'alerta', 'seguimiento', 'revisar'
+    ],
+    achievement: [
+      'logro', 'logrado', 'conseguido', 'completado', 'terminado', 'hito', 'meta alcanzada',
+      'objetivo cumplido', 'éxito', 'ganado', 'desbloqueado', 'insignia', 'recompensa',
+      'racha', 'progreso'
+    ]
+  },
+  priorityKeywords: {
+    urgent: ['urgente', 'inmediato', 'crítico', 'emergencia'],
+    high: ['importante', 'prioridad', 'alta'],
+    medium: ['media', 'normal'],
+    low: ['baja', 'opcional']
+  },
+  recurrenceKeywords: {
+    daily: ['diario', 'diariamente', 'cada día', 'todos los días'],
+    weekly: ['semanal', 'cada semana'],
+    monthly: ['mensual', 'cada mes'],
+    other: ['cada', 'repetir']
+  },
+  titlePrefixes: [/^(tarea|pendiente|recordatorio|nota|logro):\s*/i, /^(hacer|completar|terminar|tengo que|hay que)\s+/i],
+  locationWords: ['en'],
+  personWords: ['con', 'llamar a', 'escribir a'],
+  dateLocale: { dateRules, timeRules, relativeTimeRules }
+};
@@ -0,0 +1,70 @@
+import type { DateLocale } from './dateParser';
+import type { ExtractedCategory } from './categorizer';
+import { english } from './languagePacks/english';
+import { german } from './languagePacks/german';
+import { spanish } from './languagePacks/spanish';
+
+// Tesseract traineddata codes
+export type OCRLanguage = 'eng' | 'deu' | 'spa';
+
+export type LanguageSetting = OCRLanguage | 'auto';
+
+export interface LanguagePack {
+  code: OCRLanguage;
+  label: string;
+  // ISO 15924 script; the OCR character whitelist is only applied to Latin scripts
+  script: string;
+  // Letters outside ASCII that the whitelist has to allow
+  letters: string;
+  dateOrder: 'MDY' | 'DMY';
+  // Common words used to detect the language of a first OCR pass
+  stopwords: string[];
+  keywords: Record<ExtractedCategory, string[]>;
+  priorityKeywords: Record<'urgent' | 'high' | 'medium' | 'low', string[]>;
+  recurrenceKeywords: Record<'daily' | 'weekly' | 'monthly' | 'other', string[]>;
+  // Stripped from the start of a line to make a title
+  titlePrefixes: RegExp[];
+  // Words before a place ("at the office", "beim Zahnarzt") and before a person's name ("with Sam")
+  locationWords: string[];
+  personWords: string[];
+  dateLocale?: DateLocale;
+}
+
+class LanguageRegistry {
+  private packs: Record<OCRLanguage, LanguagePack> = {
+    eng: english,
+    deu: german,
+    spa: spanish
+  };
+
+  get(code: OCRLanguage): LanguagePack {
+    return this.packs[code];
+  }
+
+  list(): LanguagePack[] {
+    return Object.values(this.packs);
+  }
+
+  codes(): OCRLanguage[] {
+    return Object.keys(this.packs) as OCRLanguage[];
+  }
+
+  // Stopword hits plus letters only that language uses; English wins ties and empty text
+  detect(text: string): OCRLanguage {
+    const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(word => word.length > 0);
+    let best: { code: OCRLanguage; score: number } = { code: 'eng', score: 0 };
+
+    for (const pack of this.list()) {
+      const stopwords = new Set(pack.stopwords);
+      const stopwordHits = words.filter(word => stopwords.has(word)).length;
+      const letterHits = [...text.toLowerCase()].filter(char => pack.letters.includes(char)).length;
+      const score = stopwordHits + letterHits * 0.5;
+
+      if (score > best.score) best = { code: pack.code, score };
+    }
+
+    return best.code;
+  }
+}
+
+export const languageRegistry = new LanguageRegistry();
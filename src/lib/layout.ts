@@ -0,0 +1,143 @@
+import { OCRResult, OCRLine, OCRBox } from './ocr';
+import { dateParser, CalendarDate } from './dateParser';
+import type { ExtractedCategory } from './categorizer';
+
+export interface LayoutItem {
+  text: string;
+  lines: string[];
+  confidence: number;
+  bbox?: OCRBox;
+  lineIndexes: number[];
+  // Set from note structure rather than OCR: checkbox state, #tags and the day of the heading above
+  checked?: boolean;
+  tags?: string[];
+  date?: CalendarDate;
+  // Page of a multi-page document the item was found on
+  page?: number;
+  // Set by a template extractor that already knows what the item is, such as the event on an invite
+  category?: ExtractedCategory;
+}
+
+interface ItemDraft {
+  lines: OCRLine[];
+  lineIndexes: number[];
+  hasMarker: boolean;
+}
+
+// Bullets, checkboxes and list numbers that start a new item
+const markerPattern = /^\s*(?:[-*•·▪◦‣–—]|\[[ xX✓✔]?\]|[☐☑☒□■]|\(?\d{1,2}[.)])\s+/;
+
+// Lines that only add details (when, where) to the item above them
+const detailPattern = /^(?:location|where|room|venue|when|time|date|notes?|at)\b|^(?:@|📍)/i;
+
+// A line ending like this is cut off and continues on the next line
+const danglingPattern = /(?:[,\-–:&+/]|\b(?:and|or|with|to|at|for|the|a|of|in|on))$/i;
+
+class LayoutAnalyzer {
+  // Merge OCR lines into logical items using their geometry, falling back to one item per text line
+  groupItems(ocr: OCRResult): LayoutItem[] {
+    if (!ocr.lines || ocr.lines.length === 0) {
+      return this.fromText(ocr.text, ocr.confidence);
+    }
+
+    const medianHeight = this.medianLineHeight(ocr.lines);
+    const drafts: ItemDraft[] = [];
+    let current: ItemDraft | null = null;
+
+    ocr.lines.forEach((line, index) => {
+      const hasMarker = markerPattern.test(line.text);
+
+      if (!current || this.startsNewItem(current, line, hasMarker, medianHeight)) {
+        current = { lines: [], lineIndexes: [], hasMarker };
+        drafts.push(current);
+      }
+
+      current.lines.push(line);
+      current.lineIndexes.push(index);
+    });
+
+    return drafts.map(draft => this.toItem(draft));
+  }
+
+  fromText(text: string, confidence: number): LayoutItem[] {
+    return text
+      .split('\n')
+      .map(line => this.stripMarker(line.trim()))
+      .filter(line => line.length > 0)
+      .map((line, index) => ({
+        text: line,
+        lines: [line],
+        confidence,
+        lineIndexes: [index]
+      }));
+  }
+
+  private startsNewItem(current: ItemDraft, line: OCRLine, hasMarker: boolean, medianHeight: number): boolean {
+    if (hasMarker) return true;
+
+    const first = current.lines[0];
+    const previous = current.lines[current.lines.length - 1];
+    const gap = line.bbox.y0 - previous.bbox.y1;
+
+    // A wide vertical gap, a jump back up the page or a different column all end the item
+    if (gap > medianHeight * 0.75 || gap < -medianHeight * 0.5) return true;
+    if (line.bbox.x0 > previous.bbox.x1 || line.bbox.x1 < previous.bbox.x0) return true;
+
+    // Indented lines belong to the item they hang under
+    if (line.bbox.x0 - first.bbox.x0 > medianHeight * 0.5) return false;
+
+    // Same indentation as a bulleted item means it is the next sibling
+    if (current.hasMarker) return true;
+
+    return !this.isContinuation(previous, line, first);
+  }
+
+  private isContinuation(previous: OCRLine, line: OCRLine, first: OCRLine): boolean {
+    if (danglingPattern.test(previous.text)) return true;
+
+    // Wrapped sentences continue in lower case
+    if (/^[a-z(]/.test(line.text)) return true;
+
+    // Secondary text set in a smaller font than the item title
+    if (this.height(line.bbox) < this.height(first.bbox) * 0.85) return true;
+
+    if (detailPattern.test(line.text)) return true;
+
+    // A line that is mostly a date or time expression
+    const expression = dateParser.parse(line.text);
+    return expression !== null && expression.length >= line.text.length * 0.5;
+  }
+
+  private toItem(draft: ItemDraft): LayoutItem {
+    const lines = draft.lines.map(line => this.stripMarker(line.text));
+    const confidence = draft.lines.reduce((sum, line) => sum + line.confidence, 0) / draft.lines.length;
+
+    return {
+      text: lines.join('\n'),
+      lines,
+      confidence,
+      bbox: {
+        x0: Math.min(...draft.lines.map(line => line.bbox.x0)),
+        y0: Math.min(...draft.lines.map(line => line.bbox.y0)),
+        x1: Math.max(...draft.lines.map(line => line.bbox.x1)),
+        y1: Math.max(...draft.lines.map(line => line.bbox.y1))
+      },
+      lineIndexes: draft.lineIndexes
+    };
+  }
+
+  private stripMarker(text: string): string {
+    return text.replace(markerPattern, '').trim();
+  }
+
+  private medianLineHeight(lines: OCRLine[]): number {
+    const heights = lines.map(line => this.height(line.bbox)).sort((a, b) => a - b);
+    return heights[Math.floor(heights.length / 2)] || 1;
+  }
+
+  private height(bbox: OCRBox): number {
+    return bbox.y1 - bbox.y0;
+  }
+}
+
+export const layoutAnalyzer = new LayoutAnalyzer();
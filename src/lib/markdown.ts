@@ -0,0 +1,134 @@
+import { dateParser, CalendarDate, DateParserOptions } from './dateParser';
+import type { LayoutItem } from './layout';
+
+interface Heading {
+  level: number;
+  date?: CalendarDate;
+}
+
+// "- item", "* item", "1. item", optionally followed by a "[ ]" / "[x]" checkbox
+const listPattern = /^(\s*)(?:[-*+•]|\d{1,3}[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+
+const headingPattern = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+const fencePattern = /^\s*(?:```|~~~)/;
+
+const rulePattern = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+
+// A tag needs at least one letter, so issue numbers like #12 stay in the text
+const tagPattern = /(^|\s)#([\p{L}\p{N}_-]*\p{L}[\p{L}\p{N}_-]*)/gu;
+
+// Plain lines like "Friday:" or "Oct 24" head the lines below them, ranked under any Markdown heading
+const LINE_HEADING_LEVEL = 7;
+
+class MarkdownParser {
+  // Split a note into items like the layout analyzer does for OCR, keeping what the Markdown says about each
+  parse(text: string, confidence: number, options: DateParserOptions = {}): LayoutItem[] {
+    const items: LayoutItem[] = [];
+    const headings: Heading[] = [];
+    let current: LayoutItem | null = null;
+    let inFence = false;
+
+    text.split('\n').forEach((rawLine, index) => {
+      if (fencePattern.test(rawLine)) {
+        inFence = !inFence;
+        current = null;
+        return;
+      }
+
+      const line = rawLine.replace(/^\s*>\s?/, '');
+      if (inFence || rulePattern.test(line)) return;
+
+      if (line.trim().length === 0) {
+        current = null;
+        return;
+      }
+
+      const heading = headingPattern.exec(line);
+      if (heading) {
+        this.pushHeading(headings, heading[1].length, this.cleanInline(heading[2]), options);
+        current = null;
+        return;
+      }
+
+      const listItem = listPattern.exec(line);
+      if (!listItem) {
+        // Indented lines continue the item above them
+        if (current && /^\s/.test(line)) {
+          this.append(current, line, index);
+          return;
+        }
+
+        if (this.isLineHeading(line.trim(), options)) {
+          this.pushHeading(headings, LINE_HEADING_LEVEL, line.trim().replace(/:$/, ''), options);
+          current = null;
+          return;
+        }
+      }
+
+      const body = listItem ? listItem[3] : line;
+      const checkbox = listItem?.[2];
+      current = {
+        text: '',
+        lines: [],
+        confidence,
+        lineIndexes: [],
+        checked: checkbox === undefined ? undefined : checkbox.toLowerCase() === 'x',
+        tags: [],
+        date: this.headingDate(headings)
+      };
+      this.append(current, body, index);
+      items.push(current);
+    });
+
+    return items.filter(item => item.text.length > 0);
+  }
+
+  private append(item: LayoutItem, line: string, index: number): void {
+    const tags = Array.from(line.matchAll(tagPattern), match => match[2].toLowerCase());
+    const cleaned = this.cleanInline(line.replace(tagPattern, '$1'));
+
+    item.tags = Array.from(new Set([...(item.tags ?? []), ...tags]));
+    if (cleaned.length === 0) return;
+
+    item.lines.push(cleaned);
+    item.lineIndexes.push(index);
+    item.text = item.lines.join('\n');
+  }
+
+  // Deeper headings replace siblings and keep their parents, so "## Friday" under "# This week" dates its items
+  private pushHeading(headings: Heading[], level: number, text: string, options: DateParserOptions): void {
+    while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+
+    const expression = dateParser.parse(text, options);
+    headings.push({ level, date: expression?.date });
+  }
+
+  private headingDate(headings: Heading[]): CalendarDate | undefined {
+    for (let index = headings.length - 1; index >= 0; index--) {
+      if (headings[index].date) return headings[index].date;
+    }
+    return undefined;
+  }
+
+  // "Groceries:" or a line that is nothing but a day, such as "Friday" or "Oct 24"
+  private isLineHeading(line: string, options: DateParserOptions): boolean {
+    if (line.endsWith(':')) return true;
+
+    const expression = dateParser.parse(line, options);
+    return expression !== null && expression.isAllDay && expression.length >= line.length * 0.8;
+  }
+
+  // Keep the words, drop the formatting
+  private cleanInline(text: string): string {
+    return text
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/`([^`]*)`/g, '$1')
+      .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+      .replace(/(^|[^\w*])[*_](\S(?:.*?\S)?)[*_](?![\w*])/g, '$1$2')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
+
+export const markdownParser = new MarkdownParser();
@@ -0,0 +1,64 @@
+import { supabase } from './supabase';
+
+const BUCKET = 'screenshots';
+
+// Signed URLs live ten minutes and are replaced a minute before they run out
+const URL_LIFETIME_SECONDS = 10 * 60;
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export interface SignedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+// The screenshots bucket is private: stored files are addressed by path and read through signed URLs
+class MediaService {
+  private cache = new Map<string, SignedUrl>();
+  private pending = new Map<string, Promise<SignedUrl | null>>();
+
+  // A cached URL while it has more than the refresh margin left, otherwise a freshly signed one; null when signing fails
+  async signedUrl(path: string): Promise<SignedUrl | null> {
+    const cached = this.cache.get(path);
+    if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) return cached;
+
+    // Images rendered side by side ask for the same path at once; they share one request
+    const inFlight = this.pending.get(path);
+    if (inFlight) return inFlight;
+
+    const request = this.sign(path).finally(() => this.pending.delete(path));
+    this.pending.set(path, request);
+    return request;
+  }
+
+  // When the URL should be fetched again, so a long-open page never shows an expired link
+  refreshDelay(signed: SignedUrl): number {
+    return Math.max(0, signed.expiresAt - REFRESH_MARGIN_MS - Date.now());
+  }
+
+  // A URL that failed to load (revoked or expired early) is signed again on the next request
+  invalidate(path: string): void {
+    this.cache.delete(path);
+  }
+
+  // Signed URLs belong to the signed-in user and are dropped on sign-out
+  clear(): void {
+    this.cache.clear();
+    this.pending.clear();
+  }
+
+  private async sign(path: string): Promise<SignedUrl | null> {
+    const requestedAt = Date.now();
+    const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, URL_LIFETIME_SECONDS);
+
+    if (error || !data) {
+      console.error('Error signing stored file URL:', error);
+      return null;
+    }
+
+    const signed = { url: data.signedUrl, expiresAt: requestedAt + URL_LIFETIME_SECONDS * 1000 };
+    this.cache.set(path, signed);
+    return signed;
+  }
+}
+
+export const mediaService = new MediaService();
@@ -1,87 +1,286 @@
 import { createWorker, PSM, OEM } from 'tesseract.js';
+import { languageRegistry, LanguageSetting, OCRLanguage } from './languages';
 
 export interface OCRResult {
   text: string;
   confidence: number;
   blocks: OCRBlock[];
+  lines: OCRLine[];
+  // Multi-page documents: each page's text and where it came from; lines above are all pages in order
+  pages?: OCRPage[];
   metadata: {
-    language: string;
+    language: OCRLanguage;
     processingTime: number;
     imageSize: { width: number; height: number };
   };
 }
 
+export interface OCRPage {
+  number: number;
+  source: 'text_layer' | 'ocr';
+  text: string;
+  confidence: number;
+  lines: OCRLine[];
+}
+
+export interface OCRBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// Tesseract's block → paragraph → line → word hierarchy. Lines are kept flat in reading order and point
+// back to their block and paragraph; paragraphs and words are missing from results stored before they were kept
 export interface OCRBlock {
   text: string;
   confidence: number;
-  bbox: {
-    x0: number;
-    y0: number;
-    x1: number;
-    y1: number;
-  };
-  baseline: {
-    x0: number;
-    y0: number;
-    x1: number;
-    y1: number;
-  };
+  bbox: OCRBox;
+  baseline: OCRBox;
+  paragraphs?: OCRParagraph[];
+}
+
+export interface OCRParagraph {
+  text: string;
+  confidence: number;
+  bbox: OCRBox;
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  bbox: OCRBox;
+  blockIndex: number;
+  paragraphIndex: number;
+  words?: OCRWord[];
+}
+
+export interface OCRWord {
+  text: string;
+  confidence: number;
+  bbox: OCRBox;
+}
+
+// Characters tesseract may return for Latin scripts; each language pack adds its own letters
+const LATIN_WHITELIST = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 .,!?@#$%^&*()_+-=[]{}|;:\'",.<>/?`~';
+
+// Traineddata is bundled with the app and served from here, see vite.config.ts
+const LANG_PATH = '/tesseract/lang';
+
+export type OCRStage = 'initializing' | 'loading_language' | 'detecting_language' | 'recognizing';
+
+export interface OCRProgress {
+  stage: OCRStage;
+  // 0–1 within the stage
+  progress: number;
+}
+
+export interface ExtractOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: OCRProgress) => void;
+}
+
+interface PooledWorker {
+  worker: Tesseract.Worker;
+  languages: OCRLanguage[];
+  busy: boolean;
+  // Progress listener of the job currently using this worker
+  onLog?: (message: Tesseract.LoggerMessage) => void;
 }
 
+interface Waiter {
+  resolve: (pooled: PooledWorker) => void;
+  reject: (error: unknown) => void;
+}
+
+// Tesseract logger statuses, grouped into the stages the UI shows
+const stageForStatus = (status: string): OCRStage | null => {
+  if (status === 'recognizing text') return 'recognizing';
+  if (status.includes('language traineddata')) return 'loading_language';
+  if (status.includes('tesseract') || status.includes('api')) return 'initializing';
+  return null;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortError = () => new DOMException('OCR was cancelled', 'AbortError');
+
+// Replace one recognized word with the user's correction; its line's text and confidence follow
+export const correctWord = (ocr: OCRResult, lineIndex: number, wordIndex: number, text: string): OCRResult => {
+  const lines = ocr.lines.map((line, index) => {
+    if (index !== lineIndex || !line.words) return line;
+
+    const words = line.words.map((word, current) => (current === wordIndex ? { ...word, text: text.trim(), confidence: 100 } : word));
+    return {
+      ...line,
+      words,
+      text: words.map(word => word.text).filter(word => word.length > 0).join(' '),
+      confidence: words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+    };
+  });
+
+  // Pages hold the same lines in order, so each takes its share of the corrected ones
+  let offset = 0;
+  const pages = ocr.pages?.map(page => {
+    const pageLines = lines.slice(offset, offset + page.lines.length);
+    offset += page.lines.length;
+    return { ...page, lines: pageLines, text: pageLines.map(line => line.text).join('\n') };
+  });
+
+  return {
+    ...ocr,
+    lines,
+    pages,
+    text: pages ? pages.map(page => page.text).join('\n\n') : lines.map(line => line.text).join('\n')
+  };
+};
+
+// One worker per spare core, fewer on low-memory devices since each worker holds its own traineddata
+const defaultPoolSize = (): number => {
+  if (typeof navigator === 'undefined') return 1;
+
+  const cores = Math.max(1, (navigator.hardwareConcurrency || 2) - 1);
+  const memory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  const memoryLimit = memory === undefined ? 4 : Math.max(1, Math.floor(memory / 2));
+  return Math.min(4, cores, memoryLimit);
+};
+
 class OCRService {
-  private worker: Tesseract.Worker | null = null;
+  private workers: PooledWorker[] = [];
+  private waiting: Waiter[] = [];
+  private creating = 0;
   private isInitialized = false;
+  private language: LanguageSetting = 'eng';
+  private poolSize = defaultPoolSize();
+  private workerOptions: Partial<Tesseract.WorkerOptions> = {};
 
-  async initialize(): Promise<void> {
+  // Options are passed through to tesseract, e.g. a local langPath when running offline in node.
+  // Only the first worker is created up front; the rest of the pool starts on demand
+  async initialize(options: Partial<Tesseract.WorkerOptions> = {}): Promise<void> {
     if (this.isInitialized) return;
 
+    this.workerOptions = options;
     try {
-      this.worker = await createWorker('eng', OEM.LSTM_ONLY, {
-        logger: (m) => {
-          if (m.status === 'recognizing text') {
-            console.log(`OCR Progress: ${Math.round(m.progress * 100)}%`);
-          }
-        }
-      });
-
-      await this.worker.setParameters({
-        tessedit_pageseg_mode: PSM.SPARSE_TEXT,
-        tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 .,!?@#$%^&*()_+-=[]{}|;:\'",.<>/?`~',
-      });
-
+      this.creating++;
+      this.workers.push(await this.createPooledWorker());
       this.isInitialized = true;
       console.log('OCR Worker initialized successfully');
     } catch (error) {
       console.error('Failed to initialize OCR worker:', error);
       throw error;
+    } finally {
+      this.creating--;
     }
   }
 
-  async extractText(imageFile: File | string): Promise<OCRResult> {
-    if (!this.worker) {
+  // 'auto' recognizes once with every language loaded, detects the language and recognizes again with it
+  setLanguage(language: LanguageSetting): void {
+    this.language = language;
+  }
+
+  getPoolSize(): number {
+    return this.poolSize;
+  }
+
+  setPoolSize(size: number): void {
+    this.poolSize = Math.max(1, Math.floor(size));
+  }
+
+  // Aborting terminates the worker the job was running on, since tesseract cannot stop a recognize call;
+  // the pool starts a replacement when it is next needed
+  async extractText(imageFile: File | Blob | string, options: ExtractOptions = {}): Promise<OCRResult> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) throw abortError();
+
+    if (!this.isInitialized) {
+      onProgress?.({ stage: 'initializing', progress: 0 });
       await this.initialize();
     }
 
+    const pooled = await this.acquire(signal);
     const startTime = Date.now();
 
+    let stage: OCRStage = 'initializing';
+    let reported = -1;
+    const report = (next: OCRStage, progress: number) => {
+      const percent = Math.round(progress * 100);
+      if (next === stage && percent === reported) return;
+      stage = next;
+      reported = percent;
+      onProgress?.({ stage, progress });
+    };
+
+    // The first pass in 'auto' mode only detects the language, so its recognizing is reported as such
+    let detecting = false;
+    pooled.onLog = (message) => {
+      const next = stageForStatus(message.status);
+      if (next) report(next === 'recognizing' && detecting ? 'detecting_language' : next, message.progress);
+    };
+
+    // A terminated tesseract worker never settles its pending job, so every step races the abort
+    let onAbort = () => {};
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        this.discard(pooled);
+        reject(abortError());
+      };
+    });
+    aborted.catch(() => {});
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const run = <T>(job: Promise<T>): Promise<T> => Promise.race([job, aborted]);
+
     try {
-      const { data } = await this.worker!.recognize(imageFile);
-      const processingTime = Date.now() - startTime;
+      let language: OCRLanguage;
 
+      if (this.language === 'auto') {
+        await run(this.loadLanguages(pooled, this.languagesFor('auto')));
+        detecting = true;
+        const { data: firstPass } = await run(pooled.worker.recognize(imageFile));
+        detecting = false;
+        language = languageRegistry.detect(firstPass.text);
+      } else {
+        language = this.language;
+      }
+
+      await run(this.loadLanguages(pooled, [language]));
+      const { data } = await run(pooled.worker.recognize(imageFile));
+      const processingTime = Date.now() - startTime;
       // Extract blocks with bounding boxes
       const blocks: OCRBlock[] = data.blocks?.map(block => ({
         text: block.text,
         confidence: block.confidence,
         bbox: block.bbox,
-        baseline: block.baseline
+        baseline: block.baseline,
+        paragraphs: block.paragraphs.map(paragraph => ({
+          text: paragraph.text,
+          confidence: paragraph.confidence,
+          bbox: paragraph.bbox
+        }))
       })) || [];
 
+      // Flatten lines in reading order, keeping which block and paragraph they came from
+      const lines: OCRLine[] = data.blocks?.flatMap((block, blockIndex) =>
+        block.paragraphs.flatMap((paragraph, paragraphIndex) =>
+          paragraph.lines.map(line => ({
+            text: line.text.trim(),
+            confidence: line.confidence,
+            bbox: line.bbox,
+            blockIndex,
+            paragraphIndex,
+            words: line.words.map(word => ({ text: word.text, confidence: word.confidence, bbox: word.bbox }))
+          }))
+        )
+      ).filter(line => line.text.length > 0) || [];
+
       return {
         text: data.text,
         confidence: data.confidence,
         blocks,
+        lines,
         metadata: {
-          language: 'eng',
+          language,
           processingTime,
           imageSize: {
             width: data.width || 0,
@@ -90,29 +289,143 @@ class OCRService {
         }
       };
     } catch (error) {
+      if (signal?.aborted) throw abortError();
       console.error('OCR extraction failed:', error);
       throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      pooled.onLog = undefined;
+      this.release(pooled);
     }
   }
 
   async terminate(): Promise<void> {
-    if (this.worker) {
-      await this.worker.terminate();
-      this.worker = null;
-      this.isInitialized = false;
+    const workers = this.workers;
+    this.workers = [];
+    this.waiting.forEach(waiter => waiter.reject(abortError()));
+    this.waiting = [];
+    this.isInitialized = false;
+
+    await Promise.all(workers.map(pooled => pooled.worker.terminate()));
+  }
+
+  private async createPooledWorker(): Promise<PooledWorker> {
+    const languages = this.languagesFor(this.language);
+    const holder: { pooled?: PooledWorker } = {};
+
+    const worker = await createWorker(languages.join('+'), OEM.LSTM_ONLY, {
+      langPath: LANG_PATH,
+      logger: (message) => holder.pooled?.onLog?.(message),
+      ...this.workerOptions
+    });
+
+    const pooled: PooledWorker = { worker, languages: [], busy: false };
+    holder.pooled = pooled;
+    await this.configure(pooled, languages);
+    return pooled;
+  }
+
+  // Hands out an idle worker, starts a new one while the pool has room, or waits for the next release
+  private async acquire(signal?: AbortSignal): Promise<PooledWorker> {
+    const idle = this.workers.find(pooled => !pooled.busy);
+    if (idle) {
+      idle.busy = true;
+      return idle;
+    }
+
+    if (this.workers.length + this.creating < this.poolSize) {
+      return this.startWorker();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve: (pooled) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(pooled);
+        },
+        reject
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(current => current !== waiter);
+        reject(abortError());
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(waiter);
+    });
+  }
+
+  private async startWorker(): Promise<PooledWorker> {
+    this.creating++;
+    try {
+      const pooled = await this.createPooledWorker();
+      pooled.busy = true;
+      this.workers.push(pooled);
+      return pooled;
+    } finally {
+      this.creating--;
     }
   }
 
+  private release(pooled: PooledWorker): void {
+    if (!this.workers.includes(pooled)) return;
+
+    const next = this.waiting.shift();
+    if (next) {
+      next.resolve(pooled);
+    } else {
+      pooled.busy = false;
+    }
+  }
+
+  // Drops a worker mid-job and, if someone is queued, starts a replacement for them
+  private discard(pooled: PooledWorker): void {
+    this.workers = this.workers.filter(current => current !== pooled);
+    pooled.worker.terminate().catch(error => console.error('Failed to terminate OCR worker:', error));
+
+    const next = this.waiting.shift();
+    if (next) this.startWorker().then(next.resolve, next.reject);
+  }
+
+  private languagesFor(setting: LanguageSetting): OCRLanguage[] {
+    return setting === 'auto' ? languageRegistry.codes() : [setting];
+  }
+
+  private async loadLanguages(pooled: PooledWorker, languages: OCRLanguage[]): Promise<void> {
+    if (languages.join('+') === pooled.languages.join('+')) return;
+
+    await pooled.worker.reinitialize(languages.join('+'), OEM.LSTM_ONLY);
+    await this.configure(pooled, languages);
+  }
+
+  private async configure(pooled: PooledWorker, languages: OCRLanguage[]): Promise<void> {
+    await pooled.worker.setParameters({
+      tessedit_pageseg_mode: PSM.SPARSE_TEXT,
+      tessedit_char_whitelist: this.whitelistFor(languages),
+    });
+    pooled.languages = languages;
+  }
+
+  // Non-Latin scripts get no whitelist at all, since an empty whitelist lets every character through
+  private whitelistFor(languages: OCRLanguage[]): string {
+    const packs = languages.map(code => languageRegistry.get(code));
+    if (packs.some(pack => pack.script !== 'Latn')) return '';
+
+    return LATIN_WHITELIST + packs.map(pack => pack.letters).join('');
+  }
+
   // Mock OCR result for testing
   getMockOCRResult(): OCRResult {
-    return {
-      text: `Meeting with team tomorrow at 2 PM
+    const text = `Meeting with team tomorrow at 2 PM
       Complete project proposal by Friday
       Reminder: Doctor appointment next week
       Achievement unlocked: 10 tasks completed!
       Buy groceries: milk, bread, eggs
       Call mom tonight
-      Deadline: Submit report by end of month`,
+      Deadline: Submit report by end of month`;
+
+    return {
+      text,
       confidence: 85.5,
       blocks: [
         {
@@ -140,6 +453,13 @@ class OCRService {
           baseline: { x0: 10, y0: 130, x1: 350, y1: 130 }
         }
       ],
+      lines: text.split('\n').map((line, index) => ({
+        text: line.trim(),
+        confidence: 85.5,
+        bbox: { x0: 10, y0: 20 + index * 30, x1: 10 + line.trim().length * 8, y1: 45 + index * 30 },
+        blockIndex: index,
+        paragraphIndex: 0
+      })),
       metadata: {
         language: 'eng',
         processingTime: 2500,
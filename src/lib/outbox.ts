@@ -0,0 +1,412 @@
+import { supabase } from './supabase';
+import { AsyncStorage, SyncTable } from './storage';
+import { conflictResolver, FieldChoice, RecordConflict } from './conflicts';
+
+export type OutboxOperation = 'create' | 'update' | 'delete';
+
+// One local change, kept until the server acknowledges it. Creates carry a temporary id
+// until the insert returns the real one
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  table: SyncTable;
+  recordId: string;
+  patch: Record<string, unknown>;
+  clientTimestamp: number;
+  // For updates: the row's updated_at and the edited fields' values when the edit began, so a change
+  // made elsewhere in the meantime is noticed instead of overwritten
+  base?: EditBase;
+  attempts: number;
+  // Set when the server refused the change; it then waits for a retry or discard
+  error?: string;
+  // Set when another device changed the same fields; it then waits for the user to pick
+  conflict?: RecordConflict;
+}
+
+export interface EditBase {
+  updatedAt: string;
+  values: Record<string, unknown>;
+}
+
+export interface OutboxResult {
+  entry: OutboxEntry;
+  // saved: acknowledged; failed: refused by the server; conflict: waiting for the user
+  status: 'saved' | 'failed' | 'conflict';
+  serverId?: string;
+  error?: string;
+  conflict?: RecordConflict;
+}
+
+interface StoredOutbox {
+  entries: OutboxEntry[];
+  // Temporary ids already created on the server, for changes made to a record before its insert came back
+  serverIds: Record<string, string>;
+  // Bumped on every write, by this page or by the service worker replaying in the background
+  revision?: number;
+}
+
+type EntriesListener = (entries: OutboxEntry[]) => void;
+type ReplayListener = (results: OutboxResult[]) => void;
+
+// Shared with public/background-sync.js, which replays the same entries when no tab is open
+const OUTBOX_KEY = 'outbox';
+const OUTBOX_LOCK = 'outbox';
+
+// A row that keeps changing while non-overlapping edits are merged into it is left for a later replay
+const MAX_MERGE_ATTEMPTS = 3;
+
+const TEMP_PREFIX = 'temp_';
+
+export const isTempId = (id: string): boolean => id.startsWith(TEMP_PREFIX);
+
+// Postgrest errors from the server carry a code; a request that never reached it has none
+const isNetworkError = (error: { code?: string }): boolean => !navigator.onLine || !error.code;
+
+// One replay at a time across tabs and the service worker; browsers without Web Locks only have this tab
+const withLock = <T>(run: () => Promise<T>): Promise<T> => (
+  navigator.locks ? navigator.locks.request(OUTBOX_LOCK, run) : run()
+);
+
+const isBlocked = (entry: OutboxEntry): boolean => Boolean(entry.error || entry.conflict);
+
+const pick = (record: Record<string, unknown>, fields: string[]): Record<string, unknown> => (
+  Object.fromEntries(fields.filter(field => field in record).map(field => [field, record[field]]))
+);
+
+const sameRecord = (a: OutboxEntry, b: Pick<OutboxEntry, 'table' | 'recordId'>) => a.table === b.table && a.recordId === b.recordId;
+
+// The server rows with every pending change applied, so edits show up before they are saved
+export const applyPending = <T extends { id: string }>(table: SyncTable, records: T[], entries: OutboxEntry[]): T[] => {
+  let result = [...records];
+
+  for (const entry of entries.filter(entry => entry.table === table)) {
+    if (entry.operation === 'create') {
+      result = [{ ...entry.patch, id: entry.recordId } as unknown as T, ...result];
+    } else if (entry.operation === 'update') {
+      result = result.map(record => (record.id === entry.recordId ? { ...record, ...entry.patch } : record));
+    } else {
+      result = result.filter(record => record.id !== entry.recordId);
+    }
+  }
+
+  return result;
+};
+
+class Outbox {
+  private state: StoredOutbox | null = null;
+  private inFlight: string | null = null;
+  private replaying: Promise<OutboxResult[]> | null = null;
+  private replayAgain = false;
+  private entryListeners = new Set<EntriesListener>();
+  private replayListeners = new Set<ReplayListener>();
+
+  constructor() {
+    window.addEventListener('online', () => {
+      this.replay();
+    });
+  }
+
+  // Inserts a row; it appears right away under a temporary id that is swapped for the server's on replay
+  async create(table: SyncTable, fields: Record<string, unknown>): Promise<OutboxEntry> {
+    // A new id never has an earlier entry to fold into, so there is always an entry
+    return (await this.enqueue('create', table, `${TEMP_PREFIX}${crypto.randomUUID()}`, fields))!;
+  }
+
+  // `from` is the row as the edit saw it; without it the update is written whatever changed meanwhile
+  async update<T extends { updated_at?: string }>(
+    table: SyncTable,
+    id: string,
+    patch: Record<string, unknown>,
+    from?: T
+  ): Promise<OutboxEntry | null> {
+    const row = from as Record<string, unknown> | undefined;
+    const base = from?.updated_at ? { updatedAt: from.updated_at, values: pick(row!, Object.keys(patch)) } : undefined;
+    return this.enqueue('update', table, id, patch, base);
+  }
+
+  async remove(table: SyncTable, id: string): Promise<OutboxEntry | null> {
+    return this.enqueue('delete', table, id, {});
+  }
+
+  async pending(): Promise<OutboxEntry[]> {
+    return [...(await this.load()).entries];
+  }
+
+  // Called with every change to the pending entries, for optimistic UI state
+  subscribe(listener: EntriesListener): () => void {
+    this.entryListeners.add(listener);
+    this.pending().then(listener);
+    return () => {
+      this.entryListeners.delete(listener);
+    };
+  }
+
+  // Called with the outcome of each replayed entry
+  onReplay(listener: ReplayListener): () => void {
+    this.replayListeners.add(listener);
+    return () => {
+      this.replayListeners.delete(listener);
+    };
+  }
+
+  // Sends pending entries in the order they were made. A lost connection stops the replay where it is;
+  // an entry the server refuses is marked failed and holds back later changes to the same record only
+  async replay(): Promise<OutboxResult[]> {
+    if (this.replaying) {
+      this.replayAgain = true;
+      return this.replaying;
+    }
+
+    // A change queued after the last pass was planned is picked up by another replay
+    this.replaying = this.drain().finally(() => {
+      this.replaying = null;
+      if (this.replayAgain && navigator.onLine) this.replay();
+    });
+    return this.replaying;
+  }
+
+  // Clears the error on a failed entry and sends it again
+  async retry(entryId: string): Promise<OutboxResult[]> {
+    const state = await this.load();
+    const entry = state.entries.find(candidate => candidate.id === entryId);
+    if (!entry) return [];
+
+    delete entry.error;
+    await this.persist();
+    return this.replay();
+  }
+
+  // Writes a conflicting edit with the side picked for each field, on top of the row as the other device left it
+  async resolveConflict(entryId: string, choices: Record<string, FieldChoice>): Promise<OutboxResult[]> {
+    const state = await this.load();
+    const entry = state.entries.find(candidate => candidate.id === entryId);
+    if (!entry?.conflict) return [];
+
+    const { remote } = entry.conflict;
+    entry.patch = conflictResolver.apply(entry.conflict, choices);
+    entry.base = { updatedAt: String(remote.updated_at), values: pick(remote, Object.keys(entry.patch)) };
+    delete entry.conflict;
+
+    if (Object.keys(entry.patch).length === 0) {
+      state.entries = state.entries.filter(candidate => candidate.id !== entryId);
+    }
+    await this.persist();
+    return this.replay();
+  }
+
+  // Drops a failed or conflicting entry; dropping a create also drops the later changes to that record
+  async discard(entryId: string): Promise<void> {
+    const state = await this.load();
+    const entry = state.entries.find(candidate => candidate.id === entryId);
+    if (!entry) return;
+
+    state.entries = state.entries.filter(candidate => (
+      candidate.id !== entryId && !(entry.operation === 'create' && sameRecord(candidate, entry))
+    ));
+    await this.persist();
+  }
+
+  private async enqueue(
+    operation: OutboxOperation,
+    table: SyncTable,
+    id: string,
+    patch: Record<string, unknown>,
+    base?: EditBase
+  ): Promise<OutboxEntry | null> {
+    const state = await this.load();
+    const recordId = state.serverIds[id] ?? id;
+
+    // Changes to a record that is still waiting are folded into its last entry, unless that one is being sent
+    const last = [...state.entries].reverse().find(entry => sameRecord(entry, { table, recordId }));
+    const canMerge = last && !isBlocked(last) && last.id !== this.inFlight;
+
+    if (canMerge && operation === 'update' && last.operation !== 'delete') {
+      last.patch = { ...last.patch, ...patch };
+      // The earliest base stays: a field edited twice offline was still edited from the first value
+      if (last.base && base) last.base.values = { ...base.values, ...last.base.values };
+      last.clientTimestamp = Date.now();
+      await this.persist();
+      return last;
+    }
+
+    if (canMerge && operation === 'delete' && last.operation === 'create') {
+      // Never reached the server, so there is nothing to delete there
+      state.entries = state.entries.filter(entry => !sameRecord(entry, last));
+      await this.persist();
+      return null;
+    }
+
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      operation,
+      table,
+      recordId,
+      patch,
+      clientTimestamp: Date.now(),
+      base,
+      attempts: 0
+    };
+    state.entries.push(entry);
+    await this.persist();
+
+    if (navigator.onLine) this.replay();
+    return entry;
+  }
+
+  // Picks up what the service worker wrote while this page had the outbox loaded
+  async reload(): Promise<void> {
+    const stored = await this.read();
+    const state = await this.load();
+    if ((stored.revision ?? 0) <= (state.revision ?? 0)) return;
+
+    Object.assign(state, stored);
+    this.entryListeners.forEach(listener => listener([...state.entries]));
+  }
+
+  // Tells listeners about entries the service worker replayed, as if this page had
+  notifyReplayed(results: OutboxResult[]): void {
+    if (results.length > 0) this.replayListeners.forEach(listener => listener(results));
+  }
+
+  private async drain(): Promise<OutboxResult[]> {
+    const results: OutboxResult[] = [];
+    await withLock(async () => {
+      await this.reload();
+      do {
+        this.replayAgain = false;
+        results.push(...await this.replayOnce());
+      } while (this.replayAgain && navigator.onLine);
+    });
+
+    if (results.length > 0) this.replayListeners.forEach(listener => listener(results));
+    return results;
+  }
+
+  private async replayOnce(): Promise<OutboxResult[]> {
+    const state = await this.load();
+    const results: OutboxResult[] = [];
+    const blocked = new Set<string>();
+
+    for (const { id } of [...state.entries]) {
+      const entry = state.entries.find(candidate => candidate.id === id);
+      if (!entry) continue;
+
+      const key = `${entry.table}:${entry.recordId}`;
+      if (isBlocked(entry) || blocked.has(key)) {
+        blocked.add(key);
+        continue;
+      }
+
+      this.inFlight = entry.id;
+      const outcome = await this.send(entry);
+      this.inFlight = null;
+      if (!outcome) break;
+
+      results.push(outcome);
+      if (outcome.status === 'saved') {
+        state.entries = state.entries.filter(candidate => candidate.id !== entry.id);
+        if (outcome.serverId) {
+          state.serverIds[entry.recordId] = outcome.serverId;
+          state.entries.forEach(candidate => {
+            if (sameRecord(candidate, entry)) candidate.recordId = outcome.serverId!;
+          });
+        }
+      } else if (outcome.status === 'conflict') {
+        entry.conflict = outcome.conflict;
+        blocked.add(key);
+      } else {
+        entry.attempts += 1;
+        entry.error = outcome.error;
+        blocked.add(key);
+      }
+      await this.persist();
+    }
+
+    return results;
+  }
+
+  // Null when the request did not reach the server; the entry stays as it is for the next replay
+  private async send(entry: OutboxEntry): Promise<OutboxResult | null> {
+    try {
+      const table = supabase.from(entry.table);
+      let serverId: string | undefined;
+      let error: { code?: string; message: string } | null;
+
+      if (entry.operation === 'create') {
+        const response = await table.insert(entry.patch).select('id').single();
+        error = response.error;
+        serverId = response.data?.id;
+      } else if (entry.operation === 'update' && entry.base) {
+        return await this.sendConditionalUpdate(entry, entry.base);
+      } else if (entry.operation === 'update') {
+        ({ error } = await table.update(entry.patch).eq('id', entry.recordId));
+      } else {
+        ({ error } = await table.delete().eq('id', entry.recordId));
+      }
+
+      if (!error) return { entry, status: 'saved', serverId };
+      if (isNetworkError(error)) return null;
+      return { entry, status: 'failed', error: error.message };
+    } catch {
+      // fetch itself throws when the connection drops mid-request
+      return null;
+    }
+  }
+
+  // Writes only if the row is unchanged since the edit began. Otherwise the edit is merged field by field
+  // into the row as it is now and tried again, or comes back as a conflict when both sides changed a field
+  private async sendConditionalUpdate(entry: OutboxEntry, base: EditBase): Promise<OutboxResult | null> {
+    let patch = entry.patch;
+
+    for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+      const written = await supabase
+        .from(entry.table)
+        .update(patch)
+        .eq('id', entry.recordId)
+        .eq('updated_at', base.updatedAt)
+        .select('id');
+      if (written.error) return isNetworkError(written.error) ? null : { entry, status: 'failed', error: written.error.message };
+      if (written.data.length > 0) return { entry, status: 'saved' };
+
+      const current = await supabase.from(entry.table).select('*').eq('id', entry.recordId).maybeSingle();
+      if (current.error) return isNetworkError(current.error) ? null : { entry, status: 'failed', error: current.error.message };
+
+      const remote = current.data as Record<string, unknown> | null;
+      const resolution = conflictResolver.resolve(entry.table, patch, base.values, remote);
+      if (resolution.deleted || !remote) return { entry, status: 'failed', error: 'It was deleted on another device' };
+      if (resolution.conflicts.length > 0) return { entry, status: 'conflict', conflict: { ...resolution, remote } };
+
+      // Everything this device changed is already on the server, or lost to the table's policy
+      if (Object.keys(resolution.patch).length === 0) return { entry, status: 'saved' };
+
+      patch = resolution.patch;
+      base = { updatedAt: String(remote.updated_at), values: pick(remote, Object.keys(patch)) };
+    }
+
+    return null;
+  }
+
+  // The id map is only restored together with pending entries: a new page holds no temporary ids otherwise
+  private async load(): Promise<StoredOutbox> {
+    if (!this.state) {
+      const stored = await this.read();
+      this.state = stored.entries.length > 0 ? stored : { entries: [], serverIds: {}, revision: stored.revision };
+    }
+    return this.state;
+  }
+
+  private async read(): Promise<StoredOutbox> {
+    const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+    return stored ? JSON.parse(stored) : { entries: [], serverIds: {} };
+  }
+
+  // Kept even when empty, so the revision tells a reload whether anything changed
+  private async persist(): Promise<void> {
+    const state = await this.load();
+    state.revision = (state.revision ?? 0) + 1;
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(state));
+    this.entryListeners.forEach(listener => listener([...state.entries]));
+  }
+}
+
+export const outbox = new Outbox();
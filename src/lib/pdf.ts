@@ -0,0 +1,175 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { ocrService, OCRLine, OCRPage, OCRProgress, OCRResult } from './ocr';
+import { imagePreprocessor, PreprocessOptions, PreprocessStep } from './preprocess';
+import { languageRegistry, OCRLanguage } from './languages';
+
+export interface PdfExtractOptions {
+  // Applied to pages that have to be OCR'd; a crop never is, since it was drawn on no page in particular
+  preprocess: PreprocessOptions;
+  signal?: AbortSignal;
+  onPage?: (page: number, pageCount: number) => void;
+  onProgress?: (progress: OCRProgress) => void;
+}
+
+export interface PdfExtraction {
+  ocr: OCRResult;
+  steps: PreprocessStep[];
+  // Each page as an image in the pixels its line boxes use, for reviewing what is hidden on it
+  images: Blob[];
+}
+
+// Fewer characters than this (a stamped page number, say) and the page is treated as scanned
+const MIN_TEXT_LAYER_CHARS = 8;
+
+// Scanned pages are rendered about this wide, which is what tesseract reads best
+const RENDER_WIDTH = 2000;
+
+type PdfModule = typeof import('pdfjs-dist');
+
+class PdfExtractor {
+  private module: Promise<PdfModule> | null = null;
+
+  isPdf(file: File): boolean {
+    return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+  }
+
+  // Text from each page's embedded text layer, falling back to rendering and OCR for scanned pages
+  async extract(file: File, options: PdfExtractOptions): Promise<PdfExtraction> {
+    const { getDocument } = await this.load();
+    const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    const startTime = Date.now();
+    const pages: OCRPage[] = [];
+    const steps: PreprocessStep[] = [];
+    const images: Blob[] = [];
+    let firstPageSize = { width: 0, height: 0 };
+    let ocrLanguage: OCRLanguage | undefined;
+
+    try {
+      for (let number = 1; number <= pdf.numPages; number++) {
+        if (options.signal?.aborted) throw new DOMException('Reading the PDF was cancelled', 'AbortError');
+        options.onPage?.(number, pdf.numPages);
+
+        const page = await pdf.getPage(number);
+        const viewport = page.getViewport({ scale: 1 });
+        if (number === 1) firstPageSize = { width: Math.round(viewport.width), height: Math.round(viewport.height) };
+
+        const lines = await this.textLayerLines(page);
+        const text = lines.map(line => line.text).join('\n');
+
+        // Text layer boxes are in page units, so that page is shown at its natural size
+        if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_CHARS) {
+          pages.push({ number, source: 'text_layer', text, confidence: 100, lines });
+          images.push(await this.render(page, 1));
+          continue;
+        }
+
+        const scale = Math.min(4, RENDER_WIDTH / viewport.width);
+        const prepared = await imagePreprocessor.process(await this.render(page, scale), { ...options.preprocess, crop: undefined });
+        for (const step of prepared.steps) {
+          if (!steps.some(existing => existing.name === step.name)) steps.push(step);
+        }
+
+        const ocr = await ocrService.extractText(prepared.image, { signal: options.signal, onProgress: options.onProgress });
+        ocrLanguage ??= ocr.metadata.language;
+        pages.push({ number, source: 'ocr', text: ocr.text, confidence: ocr.confidence, lines: ocr.lines });
+        images.push(prepared.image);
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    const text = pages.map(page => page.text).join('\n\n');
+
+    return {
+      ocr: {
+        text,
+        confidence: pages.length > 0 ? pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length : 0,
+        blocks: [],
+        lines: pages.flatMap(page => page.lines),
+        pages,
+        metadata: {
+          language: ocrLanguage ?? languageRegistry.detect(text),
+          processingTime: Date.now() - startTime,
+          imageSize: firstPageSize
+        }
+      },
+      steps,
+      images
+    };
+  }
+
+  // pdf.js is large, so it is only fetched the first time a PDF is opened
+  private load(): Promise<PdfModule> {
+    if (!this.module) {
+      this.module = import('pdfjs-dist').then(pdfjs => {
+        pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+        return pdfjs;
+      });
+    }
+    return this.module;
+  }
+
+  // Text items come in drawing order; runs on the same baseline are joined into lines with page-space boxes
+  private async textLayerLines(page: PDFPageProxy): Promise<OCRLine[]> {
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    const lines: OCRLine[] = [];
+    let current: OCRLine | null = null;
+
+    for (const item of content.items) {
+      if (!('str' in item)) continue;
+      const { str, transform, width, hasEOL } = item as TextItem;
+      const height = Math.hypot(transform[2], transform[3]) || 1;
+      const [x, baseline] = viewport.convertToViewportPoint(transform[4], transform[5]) as [number, number];
+      const bbox = { x0: x, y0: baseline - height, x1: x + width, y1: baseline };
+
+      if (str.trim().length > 0) {
+        // A different baseline or a wide gap (another column) starts a new line
+        const sameLine = current
+          && Math.abs(current.bbox.y1 - bbox.y1) < height * 0.5
+          && bbox.x0 - current.bbox.x1 < height * 2
+          && bbox.x0 >= current.bbox.x0;
+
+        if (current && sameLine) {
+          const spaced = bbox.x0 - current.bbox.x1 > height * 0.15 && !current.text.endsWith(' ') && !str.startsWith(' ');
+          current.text += (spaced ? ' ' : '') + str;
+          current.bbox = {
+            x0: current.bbox.x0,
+            y0: Math.min(current.bbox.y0, bbox.y0),
+            x1: Math.max(current.bbox.x1, bbox.x1),
+            y1: Math.max(current.bbox.y1, bbox.y1)
+          };
+        } else {
+          current = { text: str, confidence: 100, bbox, blockIndex: 0, paragraphIndex: 0 };
+          lines.push(current);
+        }
+      }
+
+      if (hasEOL) current = null;
+    }
+
+    return lines
+      .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+      .filter(line => line.text.length > 0);
+  }
+
+  private async render(page: PDFPageProxy, scale: number): Promise<Blob> {
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render PDF page'))), 'image/png');
+    });
+  }
+}
+
+export const pdfExtractor = new PdfExtractor();
@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+import { AsyncStorage } from './storage';
+import type { ClassifierModel } from './classifier';
+import type { ConfidenceThresholds } from './thresholds';
+import type { LanguageSetting } from './languages';
+
+// Stored in users.preferences; unknown keys written by other clients are preserved
+export interface UserPreferences {
+  classifier?: ClassifierModel;
+  confidenceThresholds?: Partial<ConfidenceThresholds>;
+  ocrLanguage?: LanguageSetting;
+  [key: string]: unknown;
+}
+
+interface StoredPreferences {
+  preferences: UserPreferences;
+  dirty: boolean;
+}
+
+class PreferencesService {
+  private cache = new Map<string, UserPreferences>();
+
+  async load(userId: string): Promise<UserPreferences> {
+    const cached = this.cache.get(userId);
+    if (cached) return cached;
+
+    const local = await this.readLocal(userId);
+
+    // Local changes that never reached the server win over the server copy
+    if (local?.dirty) {
+      this.cache.set(userId, local.preferences);
+      await this.pushToCloud(userId, local.preferences);
+      return local.preferences;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('preferences')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const preferences: UserPreferences = data?.preferences ?? {};
+      this.cache.set(userId, preferences);
+      await this.writeLocal(userId, { preferences, dirty: false });
+      return preferences;
+    } catch (error) {
+      console.error('Error loading preferences:', error);
+      const preferences = local?.preferences ?? {};
+      this.cache.set(userId, preferences);
+      return preferences;
+    }
+  }
+
+  async update(userId: string, patch: Partial<UserPreferences>): Promise<UserPreferences> {
+    const current = await this.load(userId);
+    const preferences = { ...current, ...patch };
+
+    this.cache.set(userId, preferences);
+    await this.writeLocal(userId, { preferences, dirty: true });
+    await this.pushToCloud(userId, preferences);
+
+    return preferences;
+  }
+
+  private async pushToCloud(userId: string, preferences: UserPreferences): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('users')
+        .update({ preferences })
+        .eq('id', userId);
+
+      if (error) throw error;
+      await this.writeLocal(userId, { preferences, dirty: false });
+    } catch (error) {
+      // Stays marked dirty and is pushed again on the next load
+      console.error('Error saving preferences:', error);
+    }
+  }
+
+  private async readLocal(userId: string): Promise<StoredPreferences | null> {
+    const stored = await AsyncStorage.getItem(this.storageKey(userId));
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private async writeLocal(userId: string, stored: StoredPreferences): Promise<void> {
+    await AsyncStorage.setItem(this.storageKey(userId), JSON.stringify(stored));
+  }
+
+  private storageKey(userId: string): string {
+    return `preferences_${userId}`;
+  }
+}
+
+export const preferencesService = new PreferencesService();
@@ -0,0 +1,341 @@
+import type { OCRBox } from './ocr';
+
+// Region to OCR, as fractions of the original image so it survives preview scaling
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessOptions {
+  grayscale: boolean;
+  autoInvert: boolean;
+  normalizeContrast: boolean;
+  binarize: boolean;
+  deskew: boolean;
+  upscale: boolean;
+  crop?: CropRegion;
+}
+
+export type PreprocessStepName = 'crop' | 'upscale' | 'grayscale' | 'invert' | 'contrast' | 'deskew' | 'binarize';
+
+export interface PreprocessStep {
+  name: PreprocessStepName;
+  detail?: string;
+}
+
+export interface PreprocessResult {
+  image: Blob;
+  previewUrl: string;
+  steps: PreprocessStep[];
+  width: number;
+  height: number;
+  transform: ImageTransform;
+}
+
+// How the processed image sits on the source, so boxes OCR found can be drawn on the original
+export interface ImageTransform {
+  cropX: number;
+  cropY: number;
+  scale: number;
+  // Degrees the image was turned about its centre, and the size it had when it was turned
+  rotation: number;
+  width: number;
+  height: number;
+}
+
+export const defaultPreprocessOptions: PreprocessOptions = {
+  grayscale: true,
+  autoInvert: true,
+  normalizeContrast: true,
+  binarize: false,
+  deskew: true,
+  upscale: true
+};
+
+// Tesseract reads best around 30px x-height; narrower images are usually phone crops with small text
+const MIN_WIDTH = 1200;
+const MAX_UPSCALE = 3;
+
+// Skew search range and step in degrees; smaller corrections only blur the text
+const MAX_SKEW = 10;
+const SKEW_STEP = 0.5;
+const MIN_SKEW = 0.5;
+
+// Skew is estimated on a copy no wider than this
+const SKEW_SAMPLE_WIDTH = 600;
+
+class ImagePreprocessor {
+  // Runs the enabled steps in a fixed order and records the ones that changed the image
+  async process(source: Blob, options: PreprocessOptions): Promise<PreprocessResult> {
+    const bitmap = await createImageBitmap(source);
+    const steps: PreprocessStep[] = [];
+    const transform: ImageTransform = { cropX: 0, cropY: 0, scale: 1, rotation: 0, width: 0, height: 0 };
+
+    try {
+      let canvas = this.crop(bitmap, options.crop, steps, transform);
+
+      if (options.upscale) canvas = this.upscale(canvas, steps, transform);
+
+      const usesGray = options.grayscale || options.autoInvert || options.normalizeContrast || options.binarize || options.deskew;
+      if (usesGray) {
+        let gray = this.toGray(canvas);
+        steps.push({ name: 'grayscale' });
+
+        if (options.autoInvert && this.isDark(gray)) {
+          this.invert(gray);
+          steps.push({ name: 'invert', detail: 'dark background' });
+        }
+
+        if (options.normalizeContrast) {
+          const range = this.stretchContrast(gray);
+          if (range) steps.push({ name: 'contrast', detail: `${range[0]}–${range[1]} → 0–255` });
+        }
+
+        if (options.deskew) {
+          const angle = this.estimateSkew(gray, canvas.width, canvas.height);
+          if (Math.abs(angle) >= MIN_SKEW) {
+            canvas = this.rotate(this.fromGray(gray, canvas.width, canvas.height), -angle);
+            Object.assign(transform, { rotation: -angle, width: canvas.width, height: canvas.height });
+            gray = this.toGray(canvas);
+            steps.push({ name: 'deskew', detail: `${angle > 0 ? '+' : ''}${angle.toFixed(1)}°` });
+          }
+        }
+
+        if (options.binarize) {
+          this.binarize(gray, canvas.width, canvas.height);
+          steps.push({ name: 'binarize', detail: 'adaptive' });
+        }
+
+        canvas = this.fromGray(gray, canvas.width, canvas.height);
+      }
+
+      return {
+        image: await this.toBlob(canvas),
+        previewUrl: canvas.toDataURL('image/png'),
+        steps,
+        width: canvas.width,
+        height: canvas.height,
+        transform
+      };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  // A box on the processed image as a box on the source: undo the rotation, the upscale, then the crop
+  toSourceBox(box: OCRBox, transform: ImageTransform): OCRBox {
+    const radians = (-transform.rotation * Math.PI) / 180;
+    const centerX = transform.width / 2;
+    const centerY = transform.height / 2;
+
+    const corners = [[box.x0, box.y0], [box.x1, box.y0], [box.x0, box.y1], [box.x1, box.y1]].map(([x, y]) => {
+      const dx = x - centerX;
+      const dy = y - centerY;
+      const unrotatedX = transform.rotation ? centerX + dx * Math.cos(radians) - dy * Math.sin(radians) : x;
+      const unrotatedY = transform.rotation ? centerY + dx * Math.sin(radians) + dy * Math.cos(radians) : y;
+      return [unrotatedX / transform.scale + transform.cropX, unrotatedY / transform.scale + transform.cropY];
+    });
+
+    return {
+      x0: Math.min(...corners.map(([x]) => x)),
+      y0: Math.min(...corners.map(([, y]) => y)),
+      x1: Math.max(...corners.map(([x]) => x)),
+      y1: Math.max(...corners.map(([, y]) => y))
+    };
+  }
+
+  describe(step: PreprocessStep): string {
+    const labels: Record<PreprocessStepName, string> = {
+      crop: 'Cropped',
+      upscale: 'Upscaled',
+      grayscale: 'Grayscale',
+      invert: 'Inverted',
+      contrast: 'Contrast stretched',
+      deskew: 'Deskewed',
+      binarize: 'Binarized'
+    };
+    return step.detail ? `${labels[step.name]} (${step.detail})` : labels[step.name];
+  }
+
+  private createCanvas(width: number, height: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+
+  private context(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    return ctx;
+  }
+
+  private crop(bitmap: ImageBitmap, region: CropRegion | undefined, steps: PreprocessStep[], transform: ImageTransform): HTMLCanvasElement {
+    const x = Math.round((region?.x ?? 0) * bitmap.width);
+    const y = Math.round((region?.y ?? 0) * bitmap.height);
+    const width = Math.max(1, Math.round((region?.width ?? 1) * bitmap.width));
+    const height = Math.max(1, Math.round((region?.height ?? 1) * bitmap.height));
+
+    const canvas = this.createCanvas(width, height);
+    this.context(canvas).drawImage(bitmap, x, y, width, height, 0, 0, width, height);
+
+    if (region) steps.push({ name: 'crop', detail: `${width}×${height}` });
+    Object.assign(transform, { cropX: x, cropY: y });
+    return canvas;
+  }
+
+  private upscale(canvas: HTMLCanvasElement, steps: PreprocessStep[], transform: ImageTransform): HTMLCanvasElement {
+    if (canvas.width >= MIN_WIDTH) return canvas;
+
+    const factor = Math.min(MAX_UPSCALE, Math.ceil(MIN_WIDTH / canvas.width));
+    const scaled = this.createCanvas(canvas.width * factor, canvas.height * factor);
+    const ctx = this.context(scaled);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(canvas, 0, 0, scaled.width, scaled.height);
+
+    steps.push({ name: 'upscale', detail: `×${factor}` });
+    transform.scale = factor;
+    return scaled;
+  }
+
+  private toGray(canvas: HTMLCanvasElement): Uint8ClampedArray {
+    const { data } = this.context(canvas).getImageData(0, 0, canvas.width, canvas.height);
+    const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    }
+    return gray;
+  }
+
+  private fromGray(gray: Uint8ClampedArray, width: number, height: number): HTMLCanvasElement {
+    const canvas = this.createCanvas(width, height);
+    const ctx = this.context(canvas);
+    const image = ctx.createImageData(width, height);
+
+    for (let i = 0; i < gray.length; i++) {
+      image.data[i * 4] = image.data[i * 4 + 1] = image.data[i * 4 + 2] = gray[i];
+      image.data[i * 4 + 3] = 255;
+    }
+
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+  }
+
+  // Dark mode screenshots have a mostly dark background with light text
+  private isDark(gray: Uint8ClampedArray): boolean {
+    let sum = 0;
+    for (let i = 0; i < gray.length; i++) sum += gray[i];
+    return sum / gray.length < 110;
+  }
+
+  private invert(gray: Uint8ClampedArray): void {
+    for (let i = 0; i < gray.length; i++) gray[i] = 255 - gray[i];
+  }
+
+  // Stretches the 1st–99th percentile to the full range; returns the original range, or null if it was already full
+  private stretchContrast(gray: Uint8ClampedArray): [number, number] | null {
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+    const cutoff = gray.length * 0.01;
+    let low = 0;
+    let high = 255;
+    for (let count = 0; low < 255 && count + histogram[low] <= cutoff; low++) count += histogram[low];
+    for (let count = 0; high > 0 && count + histogram[high] <= cutoff; high--) count += histogram[high];
+
+    if (high <= low || (low <= 5 && high >= 250)) return null;
+
+    const scale = 255 / (high - low);
+    for (let i = 0; i < gray.length; i++) gray[i] = (gray[i] - low) * scale;
+    return [low, high];
+  }
+
+  // Bradley's adaptive threshold: a pixel is ink when it is clearly darker than its neighbourhood mean
+  private binarize(gray: Uint8ClampedArray, width: number, height: number): void {
+    const radius = Math.max(7, Math.round(width / 32));
+    const integral = new Float64Array((width + 1) * (height + 1));
+
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += gray[y * width + x];
+        integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - radius);
+      const y1 = Math.min(height, y + radius + 1);
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.max(0, x - radius);
+        const x1 = Math.min(width, x + radius + 1);
+        const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+          - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+        const mean = sum / ((x1 - x0) * (y1 - y0));
+        gray[y * width + x] = gray[y * width + x] < mean * 0.85 ? 0 : 255;
+      }
+    }
+  }
+
+  // Projection profile: text rows give the sharpest row histogram when projected at the skew angle
+  private estimateSkew(gray: Uint8ClampedArray, width: number, height: number): number {
+    const step = Math.max(1, Math.ceil(width / SKEW_SAMPLE_WIDTH));
+    const ink: [number, number][] = [];
+
+    for (let y = 0; y < height; y += step) {
+      for (let x = 0; x < width; x += step) {
+        if (gray[y * width + x] < 100) ink.push([x / step, y / step]);
+      }
+    }
+    if (ink.length < 50) return 0;
+
+    const rows = Math.ceil((width + height) / step) * 2;
+    let bestAngle = 0;
+    let bestScore = -1;
+
+    for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+      const radians = (angle * Math.PI) / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      const profile = new Uint32Array(rows);
+
+      for (const [x, y] of ink) {
+        const row = Math.round(y * cos - x * sin) + rows / 2;
+        if (row >= 0 && row < rows) profile[row]++;
+      }
+
+      let score = 0;
+      for (let i = 0; i < rows; i++) score += profile[i] * profile[i];
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+
+    return bestAngle;
+  }
+
+  private rotate(canvas: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+    const rotated = this.createCanvas(canvas.width, canvas.height);
+    const ctx = this.context(rotated);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, rotated.width, rotated.height);
+    ctx.translate(rotated.width / 2, rotated.height / 2);
+    ctx.rotate((degrees * Math.PI) / 180);
+    ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+
+    return rotated;
+  }
+
+  private toBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the processed image'))), 'image/png');
+    });
+  }
+}
+
+export const imagePreprocessor = new ImagePreprocessor();
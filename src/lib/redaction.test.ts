@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { redactionService, Redaction } from './redaction';
+import { correctWord, OCRLine, OCRResult } from './ocr';
+import { contentCategorizer } from './categorizer';
+import { getCorrections, ReviewItem } from './review';
+
+// Lines 40px apart with 10px per character, so a word's box is easy to work out from the text
+const lineOf = (text: string, row: number): OCRLine => {
+  let x = 0;
+  const words = text.split(' ').map(word => {
+    const bbox = { x0: x, y0: row * 40, x1: x + word.length * 10, y1: row * 40 + 30 };
+    x += (word.length + 1) * 10;
+    return { text: word, confidence: 95, bbox };
+  });
+  return { text, confidence: 95, bbox: { x0: 0, y0: row * 40, x1: x, y1: row * 40 + 30 }, blockIndex: 0, paragraphIndex: 0, words };
+};
+
+const ocrOf = (...texts: string[]): OCRResult => {
+  const lines = texts.map(lineOf);
+  return {
+    text: texts.join('\n'),
+    confidence: 95,
+    blocks: [],
+    lines,
+    metadata: { language: 'eng', processingTime: 0, imageSize: { width: 800, height: texts.length * 40 } }
+  };
+};
+
+// Two pages whose lines sit at the same place on each page
+const pdfOf = (...pages: string[][]): OCRResult => {
+  const paged = pages.map((texts, index) => ({
+    number: index + 1,
+    source: 'ocr' as const,
+    text: texts.join('\n'),
+    confidence: 95,
+    lines: texts.map(lineOf)
+  }));
+  return { ...ocrOf(...pages.flat()), lines: paged.flatMap(page => page.lines), pages: paged };
+};
+
+const card = 'Card 4111 1111 1111 1111';
+
+describe('detect', () => {
+  it('finds card numbers but leaves email addresses unless asked', () => {
+    const ocr = ocrOf(card, 'Write to ana@example.com');
+    expect(redactionService.detect(ocr).map(redaction => redaction.kind)).toEqual(['card_number']);
+    expect(redactionService.detect(ocr, ['email']).map(redaction => redaction.kind)).toEqual(['email']);
+  });
+
+  it('puts each detection on the page its line is on', () => {
+    const ocr = pdfOf(['Notes'], [card]);
+    expect(redactionService.detect(ocr).map(redaction => redaction.page)).toEqual([2]);
+  });
+});
+
+describe('redetect', () => {
+  const ocr = ocrOf(card, 'Code: 482913', 'Buy milk');
+  const detected = redactionService.detect(ocr);
+  const manual: Redaction = { id: 'manual-1', kind: 'manual', bbox: { x0: 0, y0: 80, x1: 40, y1: 110 } };
+
+  it('keeps what the user removed out after a correction', () => {
+    const dismissed = detected.filter(redaction => redaction.kind === 'card_number');
+    const kept = detected.filter(redaction => redaction.kind !== 'card_number');
+    const corrected = correctWord(ocr, 2, 1, 'bread');
+
+    const redetected = redactionService.redetect(corrected, [...kept, manual], dismissed);
+    expect(redetected.map(redaction => redaction.kind)).toEqual(['manual', 'otp']);
+  });
+
+  it('finds the kinds the user asked for again', () => {
+    const withEmail = ocrOf('Write to ana@example.com');
+    const emails = redactionService.detect(withEmail, ['email']);
+    expect(redactionService.redetect(correctWord(withEmail, 0, 0, 'Mail'), emails, [])).toHaveLength(1);
+  });
+});
+
+describe('masking', () => {
+  const item = {
+    title: 'Email ana@example.com about 4111 1111 1111 1111',
+    source_text: 'Email ana@example.com about 4111 1111 1111 1111',
+    confidence: 0.9,
+    entities: { people: [], links: [], emails: ['ana@example.com'], phones: [] }
+  };
+
+  it('leaves items alone when nothing on their file is hidden', () => {
+    expect(redactionService.maskItem(item, [])).toEqual(item);
+  });
+
+  it('masks the hidden words and drops only the contact details among them', () => {
+    const masked = redactionService.maskItem(item, ['4111', '1111']);
+    expect(masked.title).toBe('Email ana@example.com about •••• •••• •••• ••••');
+    expect(masked.entities?.emails).toEqual(['ana@example.com']);
+
+    const hiddenEmail = redactionService.maskItem(item, ['ana@example.com']);
+    expect(hiddenEmail.source_text).not.toContain('ana');
+    expect(hiddenEmail.entities).toBeUndefined();
+  });
+
+  it('masks a redaction only on its own page', () => {
+    const ocr = pdfOf([card], [card]);
+    const stored = redactionService.maskOCR(ocr, redactionService.detect(ocr).filter(redaction => redaction.page === 2));
+    expect(stored.pages!.map(page => page.text)).toEqual([card, 'Card •••• •••• •••• ••••']);
+    expect(stored.lines.map(line => line.text)).toEqual([card, 'Card •••• •••• •••• ••••']);
+  });
+});
+
+describe('learning from corrections', () => {
+  beforeEach(() => contentCategorizer.loadModel(null));
+
+  // Read from one screenshot and also found on a second, where the code was hidden
+  const moved: ReviewItem = {
+    id: 'item-1',
+    accepted: true,
+    category: 'reminder',
+    originalCategory: 'uncategorized',
+    fileId: 'file-1',
+    alsoIn: ['file-2'],
+    data: {
+      title: 'Bank code 482913 password: hunter2',
+      source_text: 'Bank code 482913 password: hunter2',
+      confidence: 0.6,
+      remind_at: '2025-10-22T16:00:00.000Z',
+      is_recurring: false,
+      priority: 'medium'
+    }
+  };
+
+  const learnedTokens = (items: ReviewItem[]): string => {
+    for (const correction of getCorrections(items)) contentCategorizer.learnCorrection(correction.text, correction.category);
+    return JSON.stringify(contentCategorizer.exportModel());
+  };
+
+  it('learns raw text word for word, hidden values included', () => {
+    expect(learnedTokens([moved])).toContain('482913');
+  });
+
+  it('never learns a value hidden on any file the item was read from', () => {
+    const hidden = new Map([['file-1', []], ['file-2', ['482913', 'hunter2']]]);
+    const model = learnedTokens(redactionService.maskReviewItems([moved], hidden));
+
+    expect(model).toContain('bank');
+    expect(model).not.toContain('482913');
+    expect(model).not.toContain('hunter2');
+  });
+});
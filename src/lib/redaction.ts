@@ -0,0 +1,339 @@
+import type { OCRBox, OCRLine, OCRResult } from './ocr';
+import { emailPattern, escapePattern, ExtractedEntities } from './entities';
+import type { ExtractedItem } from './categorizer';
+import type { ReviewItem } from './review';
+import { imagePreprocessor, ImageTransform } from './preprocess';
+
+export type RedactionKind = 'card_number' | 'iban' | 'otp' | 'password' | 'email' | 'manual';
+
+// A region to hide before the screenshot leaves the device, in the pixels OCR boxes use
+export interface Redaction {
+  id: string;
+  kind: RedactionKind;
+  bbox: OCRBox;
+  // PDFs: the page the box is on, since each page's boxes are in its own pixels
+  page?: number;
+}
+
+type DetectedKind = Exclude<RedactionKind, 'manual'>;
+
+interface Detector {
+  kind: DetectedKind;
+  pattern: RegExp;
+  // Capture group holding the secret when the pattern also matches a label; it always ends the match
+  group?: number;
+  isValid?: (value: string) => boolean;
+}
+
+interface Match {
+  kind: DetectedKind;
+  start: number;
+  end: number;
+}
+
+// An extracted item, or a line the user left uncategorized
+type MaskableItem = ExtractedItem | { source_text: string; confidence: number };
+
+// Free-text fields an item carries from the OCR into what is saved
+const textFields = ['title', 'description', 'source_text', 'location', 'message'] as const;
+
+export const redactionLabels: Record<RedactionKind, string> = {
+  card_number: 'Card number',
+  iban: 'IBAN',
+  otp: 'One-time code',
+  password: 'Password',
+  email: 'Email address',
+  manual: 'Hidden by you'
+};
+
+// Luhn checksum, which every payment card number passes and most other long numbers do not
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// ISO 13616: move the country and check digits to the end, letters become 10–35, the number mod 97 is 1
+const passesIbanCheck = (value: string): boolean => {
+  const iban = value.replace(/\s/g, '');
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder === 1;
+};
+
+const detectors: Detector[] = [
+  {
+    kind: 'card_number',
+    pattern: /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g,
+    isValid: value => {
+      const digits = value.replace(/\D/g, '');
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+    }
+  },
+  {
+    kind: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    isValid: passesIbanCheck
+  },
+  {
+    // "Your verification code: 482913", "Código 4829"
+    kind: 'otp',
+    pattern: /\b(?:code|otp|passcode|pin|verification|one-time|código|codigo|bestätigungscode|sicherheitscode|tan)\b[^\d\n]{0,24}(\d{4,8})(?!\d)/giu,
+    group: 1
+  },
+  {
+    // "482913 is your code"
+    kind: 'otp',
+    pattern: /(?<!\d)\d{4,8}(?=[^\d\n]{0,24}\b(?:is your|es tu|ist dein|code|otp)\b)/giu
+  },
+  {
+    kind: 'password',
+    pattern: /\b(?:password|passwort|kennwort|contraseña|contrasena|pwd|pass|pin)\s*[:=]\s*(\S+)/giu,
+    group: 1
+  },
+  {
+    kind: 'email',
+    pattern: emailPattern
+  }
+];
+
+// Found on every image; email addresses are only hidden when the user asks, since most are meant to be kept
+export const defaultDetections: DetectedKind[] = ['card_number', 'iban', 'otp', 'password'];
+
+const mask = (value: string): string => value.replace(/[\p{L}\p{N}]/gu, '•');
+
+const union = (boxes: OCRBox[]): OCRBox => ({
+  x0: Math.min(...boxes.map(box => box.x0)),
+  y0: Math.min(...boxes.map(box => box.y0)),
+  x1: Math.max(...boxes.map(box => box.x1)),
+  y1: Math.max(...boxes.map(box => box.y1))
+});
+
+const containsCenter = (outer: OCRBox, inner: OCRBox): boolean => {
+  const x = (inner.x0 + inner.x1) / 2;
+  const y = (inner.y0 + inner.y1) / 2;
+  return x >= outer.x0 && x <= outer.x1 && y >= outer.y0 && y <= outer.y1;
+};
+
+// The page each of the OCR's lines is on; pages hold the lines in the same order
+const linePages = (ocr: OCRResult): (number | undefined)[] => (
+  ocr.pages ? ocr.pages.flatMap(page => page.lines.map(() => page.number)) : ocr.lines.map(() => undefined)
+);
+
+const covers = (redactions: Redaction[], bbox: OCRBox, page?: number): boolean => (
+  redactions.some(redaction => redaction.page === page && containsCenter(redaction.bbox, bbox))
+);
+
+class RedactionService {
+  // Card numbers, IBANs, one-time codes and passwords, or the given kinds, boxed word by word where OCR kept words
+  detect(ocr: OCRResult, kinds: DetectedKind[] = defaultDetections): Redaction[] {
+    const redactions: Redaction[] = [];
+    const pages = linePages(ocr);
+
+    ocr.lines.forEach((line, lineIndex) => {
+      const words = line.words?.filter(word => word.text.length > 0);
+      const text = words ? words.map(word => word.text).join(' ') : line.text;
+
+      for (const match of this.findMatches(text, kinds)) {
+        let bbox = line.bbox;
+        if (words) {
+          let offset = 0;
+          const covered = words.filter(word => {
+            const start = offset;
+            offset += word.text.length + 1;
+            return start < match.end && start + word.text.length > match.start;
+          });
+          if (covered.length > 0) bbox = union(covered.map(word => word.bbox));
+        }
+
+        redactions.push({ id: `${match.kind}-${lineIndex}-${match.start}`, kind: match.kind, bbox, page: pages[lineIndex] });
+      }
+    });
+
+    return redactions;
+  }
+
+  // Detections for text the user corrected: the kinds the file had found, less any the user removed,
+  // with the areas they drew kept as they are
+  redetect(ocr: OCRResult, current: Redaction[], dismissed: Redaction[]): Redaction[] {
+    const manual = current.filter(redaction => redaction.kind === 'manual');
+    const kinds = Array.from(new Set([
+      ...defaultDetections,
+      ...current.flatMap(redaction => (redaction.kind === 'manual' ? [] : [redaction.kind]))
+    ]));
+    const detected = this.detect(ocr, kinds).filter(redaction => !dismissed.some(removed => this.sameArea(removed, redaction)));
+    return [...manual, ...detected];
+  }
+
+  // The same detection found again, e.g. after a correction moved its offset in the line
+  sameArea(a: Redaction, b: Redaction): boolean {
+    return a.kind === b.kind && a.page === b.page && containsCenter(a.bbox, b.bbox);
+  }
+
+  // Text derived from the OCR, such as an item's title: the words under the file's redactions, wherever they appear
+  maskText(text: string, hiddenWords: string[]): string {
+    return hiddenWords.reduce(
+      (masked, word) => masked.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapePattern(word)}(?![\\p{L}\\p{N}])`, 'gu'), mask),
+      text
+    );
+  }
+
+  // The words of the OCR under a redaction box, or whole lines where OCR kept no words
+  hiddenWords(ocr: OCRResult, redactions: Redaction[]): string[] {
+    if (redactions.length === 0) return [];
+
+    const pages = linePages(ocr);
+    const words = ocr.lines.flatMap((line, lineIndex) => {
+      const hidden = (bbox: OCRBox) => covers(redactions, bbox, pages[lineIndex]);
+      return line.words ? line.words.filter(word => hidden(word.bbox)).map(word => word.text) : hidden(line.bbox) ? [line.text] : [];
+    });
+    return Array.from(new Set(words.map(word => word.trim()).filter(word => /[\p{L}\p{N}]/u.test(word))));
+  }
+
+  // An item as it may be stored: every text field masked. Contact details the user hid are dropped
+  // rather than kept as chips that no longer open anything
+  maskItem<T extends MaskableItem>(item: T, hiddenWords: string[]): T {
+    if (hiddenWords.length === 0) return item;
+
+    const masked: Record<string, unknown> = { ...item };
+    for (const field of textFields) {
+      if (typeof masked[field] === 'string') masked[field] = this.maskText(masked[field] as string, hiddenWords);
+    }
+
+    if ('explanation' in item && item.explanation?.dateExpression) {
+      const { dateExpression } = item.explanation;
+      masked.explanation = {
+        ...item.explanation,
+        dateExpression: { ...dateExpression, text: this.maskText(dateExpression.text, hiddenWords) }
+      };
+    }
+
+    if ('entities' in item && item.entities) {
+      const keep = (values: string[]) => values.filter(value => this.maskText(value, hiddenWords) === value);
+      const entities: ExtractedEntities = {
+        people: keep(item.entities.people),
+        links: keep(item.entities.links),
+        emails: keep(item.entities.emails),
+        phones: keep(item.entities.phones)
+      };
+      masked.entities = Object.values(entities).some(values => values.length > 0) ? entities : undefined;
+    }
+
+    return masked as T;
+  }
+
+  // Review items as they may be saved or learned from, each masked with the hidden words of every file it
+  // was read from
+  maskReviewItems(items: ReviewItem[], hiddenByFile: Map<string, string[]>): ReviewItem[] {
+    return items.map(item => {
+      const words = [item.fileId, ...(item.alsoIn ?? [])].flatMap(fileId => (fileId ? hiddenByFile.get(fileId) ?? [] : []));
+      return { ...item, data: this.maskItem(item.data, words) } as ReviewItem;
+    });
+  }
+
+  // The OCR result as it may be stored: the words under a redaction are masked
+  maskOCR(ocr: OCRResult, redactions: Redaction[]): OCRResult {
+    if (redactions.length === 0) return ocr;
+
+    const maskLine = (line: OCRLine, page?: number): OCRLine => {
+      if (!line.words) return covers(redactions, line.bbox, page) ? { ...line, text: mask(line.text) } : line;
+
+      const words = line.words.map(word => (covers(redactions, word.bbox, page) ? { ...word, text: mask(word.text) } : word));
+      return { ...line, words, text: words.map(word => word.text).filter(word => word.length > 0).join(' ') };
+    };
+
+    const linePage = linePages(ocr);
+    const lines = ocr.lines.map((line, lineIndex) => maskLine(line, linePage[lineIndex]));
+    const pages = ocr.pages?.map(page => {
+      const pageLines = page.lines.map(line => maskLine(line, page.number));
+      return { ...page, lines: pageLines, text: pageLines.map(line => line.text).join('\n') };
+    });
+    const linesOf = (blockIndex: number, paragraphIndex?: number) => lines
+      .filter(line => line.blockIndex === blockIndex && (paragraphIndex === undefined || line.paragraphIndex === paragraphIndex))
+      .map(line => line.text)
+      .join('\n');
+
+    return {
+      ...ocr,
+      text: pages ? pages.map(page => page.text).join('\n\n') : lines.map(line => line.text).join('\n'),
+      blocks: ocr.blocks.map((block, blockIndex) => ({
+        ...block,
+        text: linesOf(blockIndex),
+        paragraphs: block.paragraphs?.map((paragraph, paragraphIndex) => ({ ...paragraph, text: linesOf(blockIndex, paragraphIndex) }))
+      })),
+      lines,
+      pages
+    };
+  }
+
+  // A copy of the original image with every redaction painted over; boxes are mapped back through the
+  // preprocessing when OCR read a cropped, upscaled or deskewed version
+  async apply(image: Blob, redactions: Redaction[], transform?: ImageTransform): Promise<Blob> {
+    const bitmap = await createImageBitmap(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    // Opaque, since a blur or mosaic of a line of digits in a known font can be read back
+    ctx.fillStyle = '#000000';
+    for (const redaction of redactions) {
+      const box = transform ? imagePreprocessor.toSourceBox(redaction.bbox, transform) : redaction.bbox;
+      const padding = (box.y1 - box.y0) * 0.15;
+      const x0 = Math.max(0, Math.floor(box.x0 - padding));
+      const y0 = Math.max(0, Math.floor(box.y0 - padding));
+      const width = Math.min(canvas.width, Math.ceil(box.x1 + padding)) - x0;
+      const height = Math.min(canvas.height, Math.ceil(box.y1 + padding)) - y0;
+      if (width > 0 && height > 0) ctx.fillRect(x0, y0, width, height);
+    }
+
+    const type = ['image/jpeg', 'image/webp'].includes(image.type) ? image.type : 'image/png';
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the redacted image'))), type, 0.92);
+    });
+  }
+
+  // Matches from the detectors of the given kinds, overlapping ones merged so nothing is boxed twice
+  private findMatches(text: string, kinds: DetectedKind[]): Match[] {
+    const matches: Match[] = [];
+
+    for (const detector of detectors.filter(current => kinds.includes(current.kind))) {
+      for (const match of text.matchAll(detector.pattern)) {
+        const value = detector.group ? match[detector.group] : match[0];
+        if (detector.isValid && !detector.isValid(value)) continue;
+
+        const end = match.index! + match[0].length;
+        matches.push({ kind: detector.kind, start: end - value.length, end });
+      }
+    }
+
+    return matches
+      .sort((a, b) => a.start - b.start)
+      .reduce<Match[]>((merged, match) => {
+        const last = merged[merged.length - 1];
+        if (last && match.start <= last.end) {
+          last.end = Math.max(last.end, match.end);
+        } else {
+          merged.push({ ...match });
+        }
+        return merged;
+      }, []);
+  }
+}
+
+export const redactionService = new RedactionService();
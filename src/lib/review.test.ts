@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { dedupeReviewItems, markPreviouslySaved, ReviewItem } from './review';
+import type { CategorizedContent } from './categorizer';
+
+interface TodoOptions {
+  confidence?: number;
+  due?: string;
+  alsoIn?: string[];
+}
+
+let nextId = 0;
+
+const todo = (fileId: string, title: string, { confidence = 0.8, due, alsoIn }: TodoOptions = {}): ReviewItem => ({
+  id: `item-${nextId++}`,
+  accepted: true,
+  category: 'todo',
+  originalCategory: 'todo',
+  fileId,
+  alsoIn,
+  data: { title, source_text: title, confidence, priority: 'medium', status: 'pending', tags: [], due_date: due }
+});
+
+const uncategorized = (fileId: string, text: string): ReviewItem => ({
+  id: `item-${nextId++}`,
+  accepted: false,
+  category: 'uncategorized',
+  originalCategory: 'uncategorized',
+  fileId,
+  data: { source_text: text, confidence: 0.3 }
+});
+
+const friday = '2025-10-24T21:59:00.000Z';
+
+interface Case {
+  name: string;
+  items: ReviewItem[];
+  // Titles left after merging, and the files each was also seen in
+  kept: { title: string; fileId: string; alsoIn?: string[] }[];
+}
+
+const check = ({ items, kept }: Case) => {
+  expect(dedupeReviewItems(items).map(item => ({
+    title: item.data.source_text,
+    fileId: item.fileId,
+    ...(item.alsoIn ? { alsoIn: [...item.alsoIn].sort() } : {})
+  }))).toEqual(kept);
+};
+
+describe('dedupeReviewItems', () => {
+  it.each<Case>([
+    {
+      name: 'the same line on two screenshots is kept once, from the more confident read',
+      items: [todo('a', 'Buy milk', { confidence: 0.6 }), todo('b', 'buy milk!', { confidence: 0.9 })],
+      kept: [{ title: 'buy milk!', fileId: 'b', alsoIn: ['a'] }]
+    },
+    {
+      name: 'a line misread on one screenshot merges when its date matches',
+      items: [todo('a', 'Dentist appointment', { due: friday }), todo('b', 'Dentlst appointment', { due: friday, confidence: 0.5 })],
+      kept: [{ title: 'Dentist appointment', fileId: 'a', alsoIn: ['b'] }]
+    },
+    {
+      name: 'a couple of misread letters still merge',
+      items: [todo('a', 'Dentist appointment', { due: friday }), todo('b', 'Dentlst appolntment', { due: friday, confidence: 0.5 })],
+      kept: [{ title: 'Dentist appointment', fileId: 'a', alsoIn: ['b'] }]
+    },
+    {
+      name: 'a misread line without a date stays apart',
+      items: [todo('a', 'Dentist appointment'), todo('b', 'Dentlst appointment')],
+      kept: [{ title: 'Dentist appointment', fileId: 'a' }, { title: 'Dentlst appointment', fileId: 'b' }]
+    },
+    {
+      name: 'a near-identical title on another day stays apart',
+      items: [todo('a', 'Dentist appointment', { due: friday }), todo('b', 'Dentlst appointment', { due: '2025-10-31T20:59:00.000Z' })],
+      kept: [{ title: 'Dentist appointment', fileId: 'a' }, { title: 'Dentlst appointment', fileId: 'b' }]
+    },
+    {
+      name: 'items that only share a prefix stay apart, even on the same day',
+      items: [todo('a', 'Send report to Anna', { due: friday }), todo('b', 'Send report to finance', { due: friday })],
+      kept: [{ title: 'Send report to Anna', fileId: 'a' }, { title: 'Send report to finance', fileId: 'b' }]
+    },
+    {
+      name: 'a line repeated within one screenshot is two items',
+      items: [todo('a', 'Water the plants'), todo('a', 'Water the plants')],
+      kept: [{ title: 'Water the plants', fileId: 'a' }, { title: 'Water the plants', fileId: 'a' }]
+    },
+    {
+      name: 'the same text in another category stays apart',
+      items: [todo('a', 'Team lunch'), uncategorized('b', 'Team lunch')],
+      kept: [{ title: 'Team lunch', fileId: 'a' }, { title: 'Team lunch', fileId: 'b' }]
+    }
+  ])('$name', check);
+
+  // Masking before saving reads alsoIn to find every screenshot an item's text was on
+  describe('alsoIn', () => {
+    it.each<Case>([
+      {
+        name: 'lists every other file and never the one kept',
+        items: [
+          todo('a', 'Renew passport', { confidence: 0.7 }),
+          todo('b', 'Renew passport', { confidence: 0.9 }),
+          todo('c', 'Renew passport', { confidence: 0.8 })
+        ],
+        kept: [{ title: 'Renew passport', fileId: 'b', alsoIn: ['a', 'c'] }]
+      },
+      {
+        name: 'carries over the files an already merged copy was seen in',
+        items: [todo('a', 'Renew passport', { alsoIn: ['c'], confidence: 0.9 }), todo('b', 'Renew passport', { alsoIn: ['d'] })],
+        kept: [{ title: 'Renew passport', fileId: 'a', alsoIn: ['b', 'c', 'd'] }]
+      },
+      {
+        name: 'names each file once',
+        items: [todo('a', 'Renew passport', { alsoIn: ['c'] }), todo('b', 'Renew passport', { alsoIn: ['c'], confidence: 0.9 })],
+        kept: [{ title: 'Renew passport', fileId: 'b', alsoIn: ['a', 'c'] }]
+      }
+    ])('$name', check);
+  });
+});
+
+describe('markPreviouslySaved', () => {
+  const saved: CategorizedContent = {
+    todos: [
+      { title: 'Buy milk', source_text: 'Buy milk', confidence: 0.9, priority: 'medium', status: 'pending', tags: [] },
+      // Rows saved before source text was kept come back with it null
+      { title: 'Call the landlord', source_text: null as unknown as string, confidence: 0.9, priority: 'medium', status: 'pending', tags: [] }
+    ],
+    events: [],
+    reminders: [],
+    achievements: [],
+    uncategorized: ['Weekend errands']
+  };
+
+  const marked = markPreviouslySaved(
+    [todo('a', 'buy milk.'), todo('a', 'Call the landlord'), todo('a', 'Buy eggs'), uncategorized('a', 'Weekend errands')],
+    saved,
+    '2025-10-20T09:00:00.000Z'
+  );
+
+  it.each([
+    ['a saved line, however it is punctuated', 0, false],
+    ['a saved item without source text, by its title', 1, false],
+    ['a line that was not saved', 2, true]
+  ])('%s', (_name, index, accepted) => {
+    expect(marked[index].accepted).toBe(accepted);
+    expect(marked[index].savedAt).toBe(accepted ? undefined : '2025-10-20T09:00:00.000Z');
+  });
+
+  it('leaves uncategorized lines alone', () => {
+    expect(marked[3].savedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  contentCategorizer,
+  CategorizedContent,
+  ExtractedCategory,
+  ExtractedTodo,
+  ExtractedEvent,
+  ExtractedReminder,
+  ExtractedAchievement,
+  ExtractedItem
+} from './categorizer';
+import { ConfidenceBand, ConfidenceThresholds, defaultThresholds, getConfidenceBand } from './thresholds';
+
+export type ReviewCategory = ExtractedCategory | 'uncategorized';
+
+interface ReviewItemBase {
+  id: string;
+  accepted: boolean;
+  originalCategory: ReviewCategory;
+  band?: ConfidenceBand;
+  // Batch uploads: the file the item was read from and any other files that contained it too
+  fileId?: string;
+  alsoIn?: string[];
+  // When an earlier upload of the same screenshot already saved this item
+  savedAt?: string;
+}
+
+export type ReviewItem =
+  | (ReviewItemBase & { category: 'todo'; data: ExtractedTodo })
+  | (ReviewItemBase & { category: 'event'; data: ExtractedEvent })
+  | (ReviewItemBase & { category: 'reminder'; data: ExtractedReminder })
+  | (ReviewItemBase & { category: 'achievement'; data: ExtractedAchievement })
+  | (ReviewItemBase & { category: 'uncategorized'; data: { source_text: string; confidence: number } });
+
+export const reviewCategories: { value: ReviewCategory; label: string }[] = [
+  { value: 'todo', label: 'Todo' },
+  { value: 'event', label: 'Event' },
+  { value: 'reminder', label: 'Reminder' },
+  { value: 'achievement', label: 'Achievement' },
+  { value: 'uncategorized', label: 'Uncategorized' }
+];
+
+let nextReviewId = 0;
+
+const createReviewId = (): string => `review-${Date.now()}-${nextReviewId++}`;
+
+// Flatten categorizer output into one reviewable list. Confident items start accepted, the middle band
+// is held for review and anything below the review threshold drops into uncategorized
+export const toReviewItems = (
+  content: CategorizedContent,
+  baseConfidence: number,
+  thresholds: ConfidenceThresholds = defaultThresholds
+): ReviewItem[] => {
+  const items: ReviewItem[] = [];
+
+  const add = (category: ExtractedCategory, data: ExtractedItem) => {
+    const band = getConfidenceBand(data.confidence, thresholds[category]);
+
+    if (band === 'discard') {
+      items.push({
+        id: createReviewId(),
+        accepted: false,
+        originalCategory: 'uncategorized',
+        category: 'uncategorized',
+        band,
+        data: { source_text: data.source_text, confidence: data.confidence }
+      });
+      return;
+    }
+
+    items.push({ id: createReviewId(), accepted: band === 'auto_accept', originalCategory: category, category, band, data } as ReviewItem);
+  };
+
+  content.todos.forEach(data => add('todo', data));
+  content.events.forEach(data => add('event', data));
+  content.reminders.forEach(data => add('reminder', data));
+  content.achievements.forEach(data => add('achievement', data));
+
+  for (const text of content.uncategorized) {
+    items.push({
+      id: createReviewId(),
+      accepted: false,
+      originalCategory: 'uncategorized',
+      category: 'uncategorized',
+      data: { source_text: text, confidence: baseConfidence * 0.8 }
+    });
+  }
+
+  return items;
+};
+
+// The confidence band is dropped once the user has picked a category themselves
+const base = (item: ReviewItem): ReviewItemBase => ({
+  id: item.id,
+  accepted: item.accepted,
+  originalCategory: item.originalCategory,
+  fileId: item.fileId,
+  alsoIn: item.alsoIn,
+  savedAt: item.savedAt
+});
+
+// Move an item to another category, keeping the title the user may already have edited
+export const recategorize = (item: ReviewItem, category: ReviewCategory): ReviewItem => {
+  if (item.category === category) return item;
+
+  const { source_text, confidence } = item.data;
+  if (category === 'uncategorized') {
+    return { ...base(item), accepted: false, category, data: { source_text, confidence } };
+  }
+
+  const data = contentCategorizer.extractAs(category, source_text, confidence);
+  if ('title' in item.data) {
+    data.title = item.data.title;
+    data.source_bbox = item.data.source_bbox;
+    data.source_page = item.data.source_page;
+    data.explanation = item.data.explanation;
+  }
+
+  return { ...base(item), accepted: true, category, data } as ReviewItem;
+};
+
+// Items the user moved to a different category than the classifier chose, which the classifier learns from
+export const getCorrections = (items: ReviewItem[]): { text: string; category: ReviewCategory }[] =>
+  items
+    .filter(item => item.category !== item.originalCategory && (item.accepted || item.category === 'uncategorized'))
+    .map(item => ({ text: item.data.source_text, category: item.category }));
+
+// Collect the accepted items back into the shape the storage layer expects
+export const toCategorizedContent = (items: ReviewItem[]): CategorizedContent => {
+  const result: CategorizedContent = {
+    todos: [],
+    events: [],
+    reminders: [],
+    achievements: [],
+    uncategorized: []
+  };
+
+  for (const item of items) {
+    if (!item.accepted && item.category !== 'uncategorized') continue;
+
+    switch (item.category) {
+      case 'todo':
+        result.todos.push(item.data);
+        break;
+      case 'event':
+        result.events.push(item.data);
+        break;
+      case 'reminder':
+        result.reminders.push(item.data);
+        break;
+      case 'achievement':
+        result.achievements.push(item.data);
+        break;
+      default:
+        result.uncategorized.push(item.data.source_text);
+    }
+  }
+
+  return result;
+};
+
+const normalizeText = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const itemDate = (item: ReviewItem): string | undefined => {
+  switch (item.category) {
+    case 'todo':
+      return item.data.due_date;
+    case 'event':
+      return item.data.start_time;
+    case 'reminder':
+      return item.data.remind_at;
+    default:
+      return undefined;
+  }
+};
+
+// Share of characters left unchanged by the fewest single-letter edits, so a misread letter costs little
+// while a different word at the end of a long shared prefix costs all of its letters
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+const isDuplicate = (a: ReviewItem, b: ReviewItem): boolean => {
+  if (a.category !== b.category || a.fileId === b.fileId) return false;
+  if (normalizeText(a.data.source_text) === normalizeText(b.data.source_text)) return true;
+
+  // Overlapping screenshots can OCR the same line slightly differently; a matching date and a near-identical title count too
+  const date = itemDate(a);
+  if (!date || date !== itemDate(b) || !('title' in a.data) || !('title' in b.data)) return false;
+  return similarity(normalizeText(a.data.title), normalizeText(b.data.title)) >= 0.8;
+};
+
+// Collapse items that appear in several files into the most confident copy, remembering where else they were seen.
+// Repeats within one screenshot are separate items
+export const dedupeReviewItems = (items: ReviewItem[]): ReviewItem[] => {
+  const kept: ReviewItem[] = [];
+
+  for (const item of items) {
+    const index = kept.findIndex(existing => isDuplicate(existing, item));
+    if (index < 0) {
+      kept.push(item);
+      continue;
+    }
+
+    const existing = kept[index];
+    const [winner, loser] = item.data.confidence > existing.data.confidence ? [item, existing] : [existing, item];
+    const files = [loser.fileId, ...(existing.alsoIn ?? []), ...(item.alsoIn ?? [])]
+      .filter((fileId): fileId is string => fileId !== undefined && fileId !== winner.fileId);
+
+    kept[index] = { ...winner, alsoIn: Array.from(new Set(files)) };
+  }
+
+  return kept;
+};
+
+// One file read again, e.g. after a corrected word: its items are swapped for the fresh ones while every other
+// item keeps the user's edits. Copies from other files that the file's old items had absorbed come back, and
+// anything that still repeats an item the user has seen is folded into it instead of replacing it
+export const replaceFileItems = (
+  items: ReviewItem[],
+  fileId: string,
+  fresh: ReviewItem[],
+  originals: ReviewItem[]
+): ReviewItem[] => {
+  const present = new Set(items.map(item => item.id));
+  const previous = originals.filter(original => original.fileId === fileId);
+  const absorbed = originals.filter(original =>
+    original.fileId !== fileId && !present.has(original.id) && previous.some(old => isDuplicate(old, original))
+  );
+
+  const kept = items
+    .filter(item => item.fileId !== fileId)
+    .map(item => (item.alsoIn?.includes(fileId) ? { ...item, alsoIn: item.alsoIn.filter(other => other !== fileId) } : item));
+
+  for (const item of dedupeReviewItems([...absorbed, ...fresh])) {
+    const index = kept.findIndex(existing => isDuplicate(existing, item));
+    if (index < 0) {
+      kept.push(item);
+      continue;
+    }
+
+    const files = [item.fileId, ...(item.alsoIn ?? [])]
+      .filter((other): other is string => other !== undefined && other !== kept[index].fileId);
+    kept[index] = { ...kept[index], alsoIn: Array.from(new Set([...(kept[index].alsoIn ?? []), ...files])) };
+  }
+
+  return kept;
+};
+
+// Items an earlier extraction of the same screenshot already saved start rejected, so saving again adds no copies
+export const markPreviouslySaved = (items: ReviewItem[], saved: CategorizedContent, savedAt: string): ReviewItem[] => {
+  const savedTexts = new Set(
+    [...saved.todos, ...saved.events, ...saved.reminders, ...saved.achievements]
+      .map(item => normalizeText(item.source_text ?? item.title))
+  );
+
+  return items.map(item =>
+    item.category !== 'uncategorized' && savedTexts.has(normalizeText(item.data.source_text))
+      ? { ...item, accepted: false, savedAt }
+      : item
+  );
+};
+
+export const countAccepted = (items: ReviewItem[]): number =>
+  items.filter(item => item.accepted && item.category !== 'uncategorized').length;
+
+// <input type="datetime-local"> works in local time without a zone suffix
+export const toDateTimeInput = (iso?: string): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInput = (value: string): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
@@ -0,0 +1,77 @@
+// Screenshots and text handed to the app from outside: the clipboard or the OS share sheet
+export interface SharedContent {
+  files: File[];
+  text: string;
+}
+
+// Written by public/share-target.js
+const CACHE_NAME = 'share-target';
+const QUERY_PARAM = 'share-target';
+
+interface SharedMeta {
+  files: number;
+  text: string;
+}
+
+class ShareTargetService {
+  // Images win over text: a screenshot copied from a browser often carries its alt text along
+  fromClipboard(data: DataTransfer | null): SharedContent | null {
+    if (!data) return null;
+
+    const files = Array.from(data.files).filter(file => file.type.startsWith('image/'));
+    if (files.length > 0) return { files: files.map((file, index) => this.named(file, index)), text: '' };
+
+    const text = data.getData('text/plain').trim();
+    return text ? { files: [], text } : null;
+  }
+
+  // Picks up what the service worker parked for ?share-target=<id>, then removes it and the query
+  async consumePending(): Promise<SharedContent | null> {
+    const url = new URL(window.location.href);
+    const id = url.searchParams.get(QUERY_PARAM);
+    if (!id) return null;
+
+    url.searchParams.delete(QUERY_PARAM);
+    window.history.replaceState(null, '', url.pathname + url.search + url.hash);
+
+    if (!('caches' in window)) return null;
+
+    try {
+      const cache = await caches.open(CACHE_NAME);
+      const metaResponse = await cache.match(`/share-target/${id}/meta`);
+      if (!metaResponse) return null;
+
+      const meta: SharedMeta = await metaResponse.json();
+      const files: File[] = [];
+      for (let index = 0; index < meta.files; index++) {
+        const response = await cache.match(`/share-target/${id}/file-${index}`);
+        if (!response) continue;
+
+        const blob = await response.blob();
+        const name = decodeURIComponent(response.headers.get('X-File-Name') ?? `shared-${index}`);
+        files.push(new File([blob], name, { type: blob.type }));
+      }
+
+      const keys = await cache.keys();
+      await Promise.all(
+        keys.filter(request => new URL(request.url).pathname.startsWith(`/share-target/${id}/`)).map(request => cache.delete(request))
+      );
+
+      return files.length > 0 || meta.text ? { files, text: meta.text } : null;
+    } catch (error) {
+      console.error('Error reading shared content:', error);
+      return null;
+    }
+  }
+
+  // Pasted images are all called image.png; give them distinct, dated names for the upload list and storage
+  private named(file: File, index: number): File {
+    if (file.name && file.name !== 'image.png') return file;
+
+    const extension = file.type.split('/')[1] ?? 'png';
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return new File([file], `pasted-${stamp}${index > 0 ? `-${index + 1}` : ''}.${extension}`, { type: file.type });
+  }
+}
+
+export const shareTarget = new ShareTargetService();
@@ -1,3 +1,5 @@
+import { indexedDatabase, entityStores, KEY_VALUE_STORE } from './indexedDb';
+
 // Web-compatible AsyncStorage implementation
 class WebAsyncStorage {
   async getItem(key: string): Promise<string | null> {
@@ -43,9 +45,76 @@ class WebAsyncStorage {
   }
 }
 
-export const AsyncStorage = new WebAsyncStorage();
+const isEntityStore = (key: string): key is SyncTable => (entityStores as string[]).includes(key);
+
+// AsyncStorage on IndexedDB: no 5 MB cap, and clear() only empties this app's stores. Entity keys
+// ('todos', 'events', ...) map to their own indexed stores; every other key is kept in a key-value store
+class IndexedDBAsyncStorage {
+  async getItem(key: string): Promise<string | null> {
+    try {
+      if (isEntityStore(key)) {
+        const records = await indexedDatabase.getAllInOrder(key);
+        return records.length > 0 ? JSON.stringify(records) : null;
+      }
+      const value = await indexedDatabase.get<string>(KEY_VALUE_STORE, key);
+      return value ?? null;
+    } catch (error) {
+      console.error('Error getting item from storage:', error);
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    try {
+      if (isEntityStore(key)) {
+        await indexedDatabase.replaceAll(key, JSON.parse(value));
+      } else {
+        await indexedDatabase.put(KEY_VALUE_STORE, value, key);
+      }
+    } catch (error) {
+      console.error('Error setting item in storage:', error);
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    try {
+      if (isEntityStore(key)) {
+        await indexedDatabase.replaceAll(key, []);
+      } else {
+        await indexedDatabase.delete(KEY_VALUE_STORE, key);
+      }
+    } catch (error) {
+      console.error('Error removing item from storage:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await indexedDatabase.clear();
+    } catch (error) {
+      console.error('Error clearing storage:', error);
+    }
+  }
 
-// Hybrid storage service
+  async getAllKeys(): Promise<string[]> {
+    try {
+      // Keys starting with __ are the database's own markers
+      const keys = (await indexedDatabase.keys(KEY_VALUE_STORE)).map(String).filter(key => !key.startsWith('__'));
+      const filled = await Promise.all(entityStores.map(async store => ((await indexedDatabase.keys(store)).length > 0 ? [store] : [])));
+      return [...keys, ...filled.flat()];
+    } catch (error) {
+      console.error('Error getting all keys from storage:', error);
+      return [];
+    }
+  }
+}
+
+// localStorage only where IndexedDB is unavailable
+export const AsyncStorage = indexedDatabase.isSupported() ? new IndexedDBAsyncStorage() : new WebAsyncStorage();
+
+export type SyncTable = 'todos' | 'events' | 'reminders' | 'achievements';
+
+// Rows last fetched from each table, for when the server cannot be reached; changes go through the outbox
 export class HybridStorage {
   private static instance: HybridStorage;
   private isOnline: boolean = navigator.onLine;
@@ -54,7 +123,6 @@ export class HybridStorage {
     // Listen for online/offline events
     window.addEventListener('online', () => {
       this.isOnline = true;
-      this.syncOfflineData();
     });
     
     window.addEventListener('offline', () => {
@@ -69,75 +137,13 @@ export class HybridStorage {
     return HybridStorage.instance;
   }
 
-  async store(key: string, data: any): Promise<void> {
-    const serializedData = JSON.stringify(data);
-    
-    if (this.isOnline) {
-      // Store in cloud (Supabase) and local storage
-      await this.storeInCloud(key, data);
-      await AsyncStorage.setItem(key, serializedData);
-    } else {
-      // Store locally and mark for sync
-      await AsyncStorage.setItem(key, serializedData);
-      await this.markForSync(key, data);
-    }
-  }
-
-  async retrieve(key: string): Promise<any> {
-    try {
-      if (this.isOnline) {
-        // Try cloud first, fallback to local
-        const cloudData = await this.retrieveFromCloud(key);
-        if (cloudData) return cloudData;
-      }
-      
-      // Fallback to local storage
-      const localData = await AsyncStorage.getItem(key);
-      return localData ? JSON.parse(localData) : null;
-    } catch (error) {
-      console.error('Error retrieving data:', error);
-      return null;
-    }
-  }
-
-  private async storeInCloud(key: string, data: any): Promise<void> {
-    // Implementation would depend on your cloud storage strategy
-    // This is a placeholder for Supabase integration
-    console.log('Storing in cloud:', { key, data });
-  }
-
-  private async retrieveFromCloud(key: string): Promise<any> {
-    // Implementation would depend on your cloud storage strategy
-    console.log('Retrieving from cloud:', key);
-    return null;
+  async cacheRecords<T extends { id: string }>(table: SyncTable, records: T[]): Promise<void> {
+    await AsyncStorage.setItem(table, JSON.stringify(records));
   }
 
-  private async markForSync(key: string, data: any): Promise<void> {
-    const syncQueue = await this.getSyncQueue();
-    syncQueue.push({ key, data, timestamp: Date.now() });
-    await AsyncStorage.setItem('syncQueue', JSON.stringify(syncQueue));
-  }
-
-  private async getSyncQueue(): Promise<any[]> {
-    const queue = await AsyncStorage.getItem('syncQueue');
-    return queue ? JSON.parse(queue) : [];
-  }
-
-  private async syncOfflineData(): Promise<void> {
-    try {
-      const syncQueue = await this.getSyncQueue();
-      
-      for (const item of syncQueue) {
-        await this.storeInCloud(item.key, item.data);
-      }
-      
-      // Clear sync queue after successful sync
-      await AsyncStorage.removeItem('syncQueue');
-      
-      console.log('Offline data synced successfully');
-    } catch (error) {
-      console.error('Error syncing offline data:', error);
-    }
+  async cachedRecords<T extends { id: string }>(table: SyncTable): Promise<T[] | null> {
+    const stored = await AsyncStorage.getItem(table);
+    return stored ? JSON.parse(stored) : null;
   }
 
   isConnected(): boolean {
@@ -145,4 +151,4 @@ export class HybridStorage {
   }
 }
 
-export const hybridStorage = HybridStorage.getInstance();
\ No newline at end of file
+export const hybridStorage = HybridStorage.getInstance();
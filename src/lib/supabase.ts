@@ -1,7 +1,9 @@
 import { createClient } from '@supabase/supabase-js';
+import type { ExtractedEntities } from './entities';
+import { AsyncStorage } from './storage';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+export const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 if (!supabaseUrl || !supabaseKey) {
   throw new Error('Missing Supabase environment variables');
@@ -11,6 +13,8 @@ export const supabase = createClient(supabaseUrl, supabaseKey, {
   auth: {
     autoRefreshToken: true,
     persistSession: true,
+    // In IndexedDB rather than localStorage, where the service worker can read and refresh it for background sync
+    storage: AsyncStorage,
     detectSessionInUrl: true
   }
 });
@@ -25,6 +29,7 @@ export interface Todo {
   status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
   due_date?: string;
   tags: string[];
+  entities?: ExtractedEntities | null;
   created_at: string;
   updated_at: string;
 }
@@ -40,6 +45,7 @@ export interface Event {
   event_type: 'meeting' | 'appointment' | 'task' | 'reminder' | 'personal';
   color: string;
   is_all_day: boolean;
+  entities?: ExtractedEntities | null;
   created_at: string;
   updated_at: string;
 }
@@ -71,17 +77,31 @@ export interface Achievement {
   max_progress: number;
   is_unlocked: boolean;
   created_at: string;
+  updated_at: string;
 }
 
 export interface ExtractedData {
   id: string;
   user_id: string;
-  source_file_url?: string;
-  extraction_type: 'ocr' | 'image_analysis' | 'document_parsing';
+  source_storage_path?: string;
+  extraction_type: 'ocr' | 'image_analysis' | 'document_parsing' | 'text';
   raw_data: any;
   processed_data: any;
   confidence_score: number;
   status: 'processing' | 'completed' | 'failed';
+  content_hash?: string;
   created_at: string;
   updated_at: string;
+}
+
+export interface MediaStorage {
+  id: string;
+  user_id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  storage_path: string;
+  metadata: Record<string, unknown>;
+  content_hash?: string;
+  uploaded_at: string;
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import type { DateParserOptions } from './dateParser';
+import type { OCRResult } from './ocr';
+import { contentCategorizer, CategorizedContent } from './categorizer';
+import { layoutAnalyzer } from './layout';
+import { calendarInvite } from './extractors/calendarInvite';
+import { email } from './extractors/email';
+import { chat } from './extractors/chat';
+
+export type TemplateName = 'calendar_invite' | 'email' | 'chat';
+
+export interface TemplateContext {
+  ocr: OCRResult;
+  options: DateParserOptions;
+}
+
+// A known screenshot layout with its own extractor in place of the generic line classifier
+export interface ExtractionTemplate {
+  name: TemplateName;
+  label: string;
+  // How sure the template is that the screenshot has its layout, from 0 to 1
+  detect: (context: TemplateContext) => number;
+  extract: (context: TemplateContext) => CategorizedContent;
+}
+
+// Below this the generic categorizer is more trustworthy than a half-matching template
+const MIN_TEMPLATE_SCORE = 0.6;
+
+class TemplateRegistry {
+  private templates: Record<TemplateName, ExtractionTemplate> = {
+    calendar_invite: calendarInvite,
+    email,
+    chat
+  };
+
+  get(name: TemplateName): ExtractionTemplate {
+    return this.templates[name];
+  }
+
+  list(): ExtractionTemplate[] {
+    return Object.values(this.templates);
+  }
+
+  // Best-scoring template for the screenshot; templates read line geometry, so typed text never matches
+  detect(ocr: OCRResult, options: DateParserOptions = {}): ExtractionTemplate | null {
+    if (!ocr.lines || ocr.lines.length === 0) return null;
+
+    let best: { template: ExtractionTemplate; score: number } | null = null;
+    for (const template of this.list()) {
+      const score = template.detect({ ocr, options });
+      if (score >= MIN_TEMPLATE_SCORE && (!best || score > best.score)) best = { template, score };
+    }
+
+    return best?.template ?? null;
+  }
+
+  categorize(ocr: OCRResult, options: DateParserOptions = {}): CategorizedContent {
+    const template = this.detect(ocr, options);
+    if (!template) return contentCategorizer.categorizeItems(layoutAnalyzer.groupItems(ocr), options);
+
+    const content = template.extract({ ocr, options });
+    for (const item of [...content.todos, ...content.events, ...content.reminders, ...content.achievements]) {
+      if (item.explanation) item.explanation.template = template.name;
+    }
+    return content;
+  }
+}
+
+export const templateRegistry = new TemplateRegistry();
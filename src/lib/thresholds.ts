@@ -0,0 +1,31 @@
+import type { ExtractedCategory } from './categorizer';
+
+export type ConfidenceBand = 'auto_accept' | 'review' | 'discard';
+
+// Items at or above autoAccept are accepted without review; below review they drop into uncategorized
+export interface CategoryThreshold {
+  autoAccept: number;
+  review: number;
+}
+
+export type ConfidenceThresholds = Record<ExtractedCategory, CategoryThreshold>;
+
+export const defaultThresholds: ConfidenceThresholds = {
+  todo: { autoAccept: 80, review: 45 },
+  event: { autoAccept: 85, review: 50 },
+  reminder: { autoAccept: 85, review: 50 },
+  achievement: { autoAccept: 80, review: 45 }
+};
+
+export const resolveThresholds = (overrides?: Partial<ConfidenceThresholds>): ConfidenceThresholds => ({
+  todo: { ...defaultThresholds.todo, ...overrides?.todo },
+  event: { ...defaultThresholds.event, ...overrides?.event },
+  reminder: { ...defaultThresholds.reminder, ...overrides?.reminder },
+  achievement: { ...defaultThresholds.achievement, ...overrides?.achievement }
+});
+
+export const getConfidenceBand = (confidence: number, threshold: CategoryThreshold): ConfidenceBand => {
+  if (confidence >= threshold.autoAccept) return 'auto_accept';
+  if (confidence >= threshold.review) return 'review';
+  return 'discard';
+};
@@ -0,0 +1,16 @@
+/*
+  # Content hashes for uploaded screenshots
+
+  1. Changes
+    - `media_storage.content_hash` - SHA-256 of the uploaded file
+    - `extracted_data.content_hash` - SHA-256 of the file the extraction was made from
+
+  2. Indexes
+    - Per-user hash lookups on both tables, used to find a previous extraction before running OCR again
+*/
+
+ALTER TABLE media_storage ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE extracted_data ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_media_storage_content_hash ON media_storage(user_id, content_hash);
+CREATE INDEX IF NOT EXISTS idx_extracted_data_content_hash ON extracted_data(user_id, content_hash);
@@ -0,0 +1,10 @@
+/*
+  # Text extractions
+
+  1. Changes
+    - `extracted_data.extraction_type` also accepts `text`, for pasted or shared text that was categorized without OCR
+*/
+
+ALTER TABLE extracted_data DROP CONSTRAINT IF EXISTS extracted_data_extraction_type_check;
+ALTER TABLE extracted_data ADD CONSTRAINT extracted_data_extraction_type_check
+  CHECK (extraction_type IN ('ocr', 'image_analysis', 'document_parsing', 'text'));
@@ -0,0 +1,10 @@
+/*
+  # Entities on todos and events
+
+  1. Changes
+    - `todos.entities` - people, links, email addresses and phone numbers found in the item's text
+    - `events.entities` - the same for events, where the people are usually the attendees
+*/
+
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS entities jsonb;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS entities jsonb;
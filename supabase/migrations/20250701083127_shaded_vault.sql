@@ -0,0 +1,23 @@
+/*
+  # Private screenshots bucket
+
+  1. Storage
+    - The `screenshots` bucket is no longer public; images are read through short-lived signed URLs,
+      which the existing per-user SELECT policy already allows
+
+  2. Changes
+    - `extracted_data.source_storage_path` - path of the source file in the bucket, backfilled from `source_file_url`
+    - `extracted_data.source_file_url` and `media_storage.public_url` are dropped: the links they hold stop working
+      once the bucket is private and should not be kept around
+*/
+
+UPDATE storage.buckets SET public = false WHERE id = 'screenshots';
+
+ALTER TABLE extracted_data ADD COLUMN IF NOT EXISTS source_storage_path text;
+
+UPDATE extracted_data
+SET source_storage_path = substring(source_file_url FROM '/storage/v1/object/public/screenshots/(.+)$')
+WHERE source_file_url IS NOT NULL AND source_storage_path IS NULL;
+
+ALTER TABLE extracted_data DROP COLUMN IF EXISTS source_file_url;
+ALTER TABLE media_storage DROP COLUMN IF EXISTS public_url;
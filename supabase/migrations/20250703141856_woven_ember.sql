@@ -0,0 +1,12 @@
+/*
+  # updated_at on achievements
+
+  1. Changes
+    - `achievements.updated_at` - kept current by the same trigger as the other tables, so offline edits
+      to achievements can be checked for changes made elsewhere like todos, events and reminders
+*/
+
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+CREATE TRIGGER update_achievements_updated_at BEFORE UPDATE ON achievements
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -1,11 +1,43 @@
-import { defineConfig } from 'vite';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
 
+// Keep in sync with the language packs in src/lib/languages.ts
+const tesseractLanguages = ['eng', 'deu', 'spa'];
+
+const traineddataPath = (lang: string) =>
+  path.resolve('node_modules/@tesseract.js-data', lang, '4.0.0_best_int', `${lang}.traineddata.gz`);
+
+// Serve tesseract language data from the installed @tesseract.js-data packages instead of a CDN
+const tesseractLanguageData = (): Plugin => ({
+  name: 'tesseract-language-data',
+  configureServer(server) {
+    server.middlewares.use('/tesseract/lang', (req, res, next) => {
+      const lang = tesseractLanguages.find(code => req.url === `/${code}.traineddata.gz`);
+      if (!lang) return next();
+
+      res.setHeader('Content-Type', 'application/gzip');
+      res.end(readFileSync(traineddataPath(lang)));
+    });
+  },
+  generateBundle() {
+    for (const lang of tesseractLanguages) {
+      this.emitFile({
+        type: 'asset',
+        fileName: `tesseract/lang/${lang}.traineddata.gz`,
+        source: readFileSync(traineddataPath(lang))
+      });
+    }
+  }
+});
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [
     react(),
+    tesseractLanguageData(),
     VitePWA({
       registerType: 'autoUpdate',
       includeAssets: ['favicon.ico', 'apple-touch-icon.png', 'masked-icon.svg'],
@@ -18,6 +50,18 @@ export default defineConfig({
         display: 'standalone',
         orientation: 'portrait-primary',
         start_url: '/',
+        // Handled by public/share-target.js, which both service workers import
+        share_target: {
+          action: '/share-target',
+          method: 'POST',
+          enctype: 'multipart/form-data',
+          params: {
+            title: 'title',
+            text: 'text',
+            url: 'url',
+            files: [{ name: 'screenshots', accept: ['image/*'] }]
+          }
+        },
         icons: [
           {
             src: 'pwa-192x192.png',
@@ -32,8 +76,20 @@ export default defineConfig({
         ]
       },
       workbox: {
+        importScripts: ['share-target.js', 'background-sync.js'],
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
         runtimeCaching: [
+          {
+            // Language data is too large to precache, so it is cached the first time OCR needs it
+            urlPattern: /\/tesseract\/lang\/.*\.traineddata\.gz$/,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'tesseract-lang',
+              cacheableResponse: {
+                statuses: [0, 200]
+              }
+            }
+          },
           {
             urlPattern: /^https:\/\/api\.supabase\.co\/.*/i,
             handler: 'NetworkFirst',